@@ -0,0 +1,125 @@
+// src/commands/replaceAll.ts
+// 批量替换：扫描选定文件中所有与 token 完全匹配的原始值，预览确认后一次性替换为 var(--token)
+import * as vscode from "vscode";
+import { TokenIndex } from "../core/indexer";
+import { buildTokenReplacement, pickPreferredHit } from "../core/replace";
+import { findTokenMatches, isScannableFile } from "../core/scan";
+
+/**
+ * 批量替换命令入口
+ * - 从资源管理器右键调用时扫描选中的文件/文件夹
+ * - 从命令面板调用时选择：当前文件 / 按 glob 扫描工作区
+ */
+export async function replaceAllWithTokens(index: TokenIndex, uri?: vscode.Uri, uris?: vscode.Uri[]) {
+  const files = await resolveTargetFiles(uris?.length ? uris : uri ? [uri] : undefined);
+  if (!files) { return; }
+  if (!files.length) {
+    vscode.window.showInformationMessage("没有找到可扫描的文件");
+    return;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  let count = 0;
+  let fileCount = 0;
+
+  const cancelled = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "扫描可替换为 design token 的值…",
+      cancellable: true,
+    },
+    async (progress, token) => {
+      for (const [i, file] of files.entries()) {
+        if (token.isCancellationRequested) { return true; }
+        progress.report({
+          message: vscode.workspace.asRelativePath(file),
+          increment: 100 / files.length,
+        });
+
+        const document = await vscode.workspace.openTextDocument(file);
+        const matches = findTokenMatches(index, document.getText(), document.fileName);
+        for (const p of matches) {
+          const hit = pickPreferredHit(p.hits)!;
+          // 批量替换不使用别名；JS 主题对象 token 按值所在位置生成 theme.x.y 表达式
+          const { range, text: replacement } = buildTokenReplacement(
+            document,
+            new vscode.Range(document.positionAt(p.offset), document.positionAt(p.offset + p.length)),
+            hit,
+            true,
+          );
+          edit.replace(
+            document.uri,
+            range,
+            replacement,
+            {
+              label: hit.name,
+              description: `${p.value} → ${replacement}${p.hits.length > 1 ? `（共 ${p.hits.length} 个候选）` : ""}`,
+              needsConfirmation: true,
+            },
+          );
+        }
+        count += matches.length;
+        if (matches.length) { fileCount++; }
+        if (i % 20 === 19) { await new Promise((r) => setTimeout(r, 0)); } // 让出事件循环，保持 UI 响应
+      }
+      return false;
+    },
+  );
+  if (cancelled) { return; }
+
+  if (!count) {
+    vscode.window.showInformationMessage(`扫描了 ${files.length} 个文件，没有找到可替换为 token 的值`);
+    return;
+  }
+
+  // needsConfirmation 会打开重构预览：按文件分组，可逐条勾选，应用后可整体撤销
+  const applied = await vscode.workspace.applyEdit(edit);
+  if (applied) {
+    vscode.window.showInformationMessage(`已在 ${fileCount} 个文件中发现 ${count} 处可替换的值`);
+  }
+}
+
+// ---------- 内部实现 ----------
+
+async function resolveTargetFiles(selected?: vscode.Uri[]): Promise<vscode.Uri[] | undefined> {
+  const cfg = vscode.workspace.getConfiguration("css-value2design-token");
+  const include = cfg.get<string>("bulkReplace.include") ?? "**/*.{css,scss,less,pcss,vue,svelte,html,jsx,tsx}";
+  const exclude = cfg.get<string>("bulkReplace.exclude") ?? "**/node_modules/**";
+
+  // 资源管理器中选中的文件/文件夹
+  if (selected) {
+    const result = new Map<string, vscode.Uri>();
+    for (const uri of selected) {
+      const stat = await vscode.workspace.fs.stat(uri);
+      if (stat.type & vscode.FileType.Directory) {
+        const found = await vscode.workspace.findFiles(new vscode.RelativePattern(uri, include), exclude);
+        found.forEach((f) => result.set(f.toString(), f));
+      } else if (isScannableFile(uri.fsPath)) {
+        result.set(uri.toString(), uri);
+      }
+    }
+    return [...result.values()];
+  }
+
+  const active = vscode.window.activeTextEditor?.document;
+  const scope = await vscode.window.showQuickPick(
+    [
+      ...(active && isScannableFile(active.fileName)
+        ? [{ label: "$(file) 当前文件", description: vscode.workspace.asRelativePath(active.uri), scope: "file" }]
+        : []),
+      { label: "$(folder) 工作区", description: include, scope: "workspace" },
+    ],
+    { placeHolder: "选择要批量替换为 design token 的范围" },
+  );
+  if (!scope) { return undefined; }
+  if (scope.scope === "file" && active) { return [active.uri]; }
+
+  const pattern = await vscode.window.showInputBox({
+    title: "批量替换为 design token",
+    prompt: "要扫描的文件 (glob)",
+    value: include,
+  });
+  if (!pattern) { return undefined; }
+  const files = await vscode.workspace.findFiles(pattern, exclude);
+  return files.filter((f) => isScannableFile(f.fsPath));
+}
@@ -0,0 +1,48 @@
+// src/core/cache.ts
+// 索引的磁盘缓存：按文件路径保存 mtime、内容哈希与解析结果，配置哈希不一致时整体失效
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import type { FileInfo, TokenHit } from './indexer';
+
+// 缓存结构或解析逻辑变化时递增，旧缓存自动失效
+export const CACHE_VERSION = 2;
+
+export type CachedFile = {
+  mtime: number;         // 索引时的文件 mtime
+  hash: string;          // 文件内容哈希，mtime 变了但内容没变（git checkout 等）时仍可复用
+  info: FileInfo;
+  hits: TokenHit[];
+};
+
+export type IndexCache = {
+  version: number;
+  configHash: string;    // sources / entries / packages / 归一化等影响解析结果的配置的哈希
+  files: Record<string, CachedFile>;
+};
+
+export function hashText(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+/**
+ * 读取缓存，文件不存在、损坏或版本不一致时返回 undefined
+ */
+export async function readIndexCache(file: string): Promise<IndexCache | undefined> {
+  try {
+    const cache = JSON.parse(await fs.readFile(file, 'utf8')) as IndexCache;
+    return cache.version === CACHE_VERSION && cache.files ? cache : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 写入缓存：先写临时文件再重命名，避免进程中断时留下半个 JSON
+ */
+export async function writeIndexCache(file: string, cache: IndexCache): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(cache), 'utf8');
+  await fs.rename(temp, file);
+}
@@ -0,0 +1,65 @@
+// src/core/category.ts
+// 根据值（以及可选的属性名）判断 token 所属类别，用于命名建议等场景
+import { parseColor } from './color';
+
+export type TokenCategory = 'color' | 'spacing' | 'radius' | 'shadow' | 'other';
+
+/**
+ * 判断一个 CSS 值属于哪一类 token
+ * 例如: #1E90FF -> color
+ *      16px -> spacing（属性名包含 radius 时为 radius）
+ *      0 1px 2px rgba(0,0,0,.1) -> shadow
+ *
+ * @param value 原始 CSS 值
+ * @param property 值所在的 CSS 属性名（可选，如 border-radius / box-shadow）
+ */
+export function detectValueCategory(value: string, property?: string): TokenCategory {
+  const s = (value || '').trim();
+  const prop = (property || '').trim().toLowerCase();
+  if (!s) { return 'other'; }
+
+  if (/shadow/.test(prop) || isShadowValue(s)) { return 'shadow'; }
+  if (isColorValue(s)) { return 'color'; }
+  if (isLengthValue(s)) {
+    return /radius/.test(prop) ? 'radius' : 'spacing';
+  }
+  return 'other';
+}
+
+export function isColorValue(value: string): boolean {
+  return parseColor(value) !== null;
+}
+
+export function isLengthValue(value: string): boolean {
+  return /^-?(\d+|\d*\.\d+)(px|rem|em)$/i.test(value.trim());
+}
+
+function isShadowValue(value: string): boolean {
+  // 至少包含两个连续的长度（x/y 偏移）才视为阴影
+  return /(^|\s|,)(inset\s+)?-?(\d+|\d*\.\d+)(px|rem|em)?\s+-?(\d+|\d*\.\d+)(px|rem|em)/i.test(value) &&
+    /\s/.test(value.trim());
+}
+
+/**
+ * 根据 CSS 属性名推断期望的 token 类别，无法推断时返回 undefined（不过滤）
+ * 例如: background-color / backgroundColor -> color，padding-top -> spacing
+ */
+export function categoryOfProperty(property: string): TokenCategory | undefined {
+  const prop = property.trim().replace(/[A-Z]/g, c => '-' + c.toLowerCase()).toLowerCase();
+  if (/shadow/.test(prop)) { return 'shadow'; }
+  if (/radius/.test(prop)) { return 'radius'; }
+  if (/(^|-)color$|^(color|background|fill|stroke|caret-color|accent-color)$/.test(prop)) { return 'color'; }
+  if (/^(padding|margin|gap|row-gap|column-gap|inset|top|right|bottom|left|width|height|min-width|max-width|min-height|max-height|font-size|line-height|letter-spacing|text-indent|border-width|outline-width|outline-offset)(-|$)/.test(prop) ||
+    /^(padding|margin|inset|scroll-margin|scroll-padding)-/.test(prop)) {
+    return 'spacing';
+  }
+  return undefined;
+}
+
+/**
+ * 判断 token 的类别：结合解析后的值与变量名（变量名中的 radius / shadow 会参与判断）
+ * 例如: --radius-md: 8px -> radius，--spacing-md: 16px -> spacing
+ */
+export function categoryOfToken(name: string, resolvedValue: string): TokenCategory {
+  return detectValueCategory(resolvedValue, name);
+}
@@ -0,0 +1,81 @@
+// src/core/classContext.ts
+// 判断文本中的某个位置是否位于类名列表中：class 属性、@apply、cn() / clsx() / cva() 等函数的字符串参数、tw`...`
+
+export const DEFAULT_CLASS_HELPERS = ['cn', 'clsx', 'classnames', 'cva', 'tw', 'twMerge', 'twJoin'];
+
+// 最多向前查找的字符数，避免在大文件中逐字回溯
+const LOOKBEHIND = 2000;
+
+// class="..." / className="..." / :class="..." / className={...} 这类属性的开头
+const CLASS_ATTRIBUTE = /(?:^|[\s<])(?:class|className|class:list|:class|v-bind:class|ngClass)\s*=\s*\{?\s*$/;
+
+/**
+ * 判断 offset 是否位于类名列表中
+ * 例如: <div class="p-4 bg-[#fff]">、@apply p-4 bg-[#fff];、cn("p-4", active && "bg-[#fff]")、
+ *      cva("p-4", { variants: { tone: { brand: "bg-[#fff]" } } })、tw`p-4 bg-[#fff]`
+ *
+ * @param helpers 参数被视为类名的函数 / 模板标签名
+ */
+export function isInClassList(text: string, offset: number, helpers: string[] = DEFAULT_CLASS_HELPERS): boolean {
+  const before = text.substring(Math.max(0, offset - LOOKBEHIND), offset);
+
+  // @apply 规则：从 @apply 到光标之间没有 ; { }
+  if (/@apply\s[^;{}]*$/.test(before)) { return true; }
+
+  const quote = findOpeningQuote(before);
+  if (quote === -1) { return false; }
+  const head = before.substring(0, quote);
+
+  // 属性值本身，或属性值中嵌套的字符串（:class="{ 'bg-[#fff]': active }" / className={a ? "x" : "y"}）
+  if (CLASS_ATTRIBUTE.test(head)) { return true; }
+  if (/(?:^|[\s<])(?::class|v-bind:class|ngClass)\s*=\s*"[^"]*$/.test(head)) { return true; }
+  if (/(?:^|[\s<])className\s*=\s*\{[^}]*$/.test(head)) { return true; }
+
+  // 模板标签：tw`...`
+  if (before[quote] === '`' && helpers.includes(calleeName(head) ?? '')) { return true; }
+
+  // 函数参数：向前找到未闭合的 (，检查函数名
+  const callee = findEnclosingCall(head);
+  return !!callee && helpers.includes(callee);
+}
+
+// 光标所在字符串的开引号位置：同一行内最近的引号，反引号允许跨行
+function findOpeningQuote(before: string): number {
+  const lineStart = before.lastIndexOf('\n') + 1;
+  for (let i = before.length - 1; i >= 0; i--) {
+    const ch = before[i];
+    if (ch === '`') { return i; }
+    if (i >= lineStart && (ch === '"' || ch === "'")) { return i; }
+  }
+  return -1;
+}
+
+// 向前跳过对象 / 数组字面量与其他字符串，返回包住当前位置的函数调用名
+function findEnclosingCall(head: string): string | undefined {
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = head.length - 1; i >= 0; i--) {
+    const ch = head[i];
+    if (quote) {
+      if (ch === quote && head[i - 1] !== '\\') { quote = undefined; }
+      continue;
+    }
+    if (ch === '"' || ch === "'" || ch === '`') { quote = ch; continue; }
+    if (ch === ')') { depth++; continue; }
+    if (ch === '(') {
+      if (depth === 0) {
+        return calleeName(head.substring(0, i));
+      }
+      depth--;
+      continue;
+    }
+    // 遇到语句边界时停止
+    if (ch === ';' && depth === 0) { return undefined; }
+  }
+  return undefined;
+}
+
+// 紧挨在末尾的函数名，如 'x = utils.cn' -> 'cn'
+function calleeName(text: string): string | undefined {
+  return text.match(/([\w$.]+)\s*$/)?.[1].split('.').pop();
+}
@@ -0,0 +1,443 @@
+// src/core/color.ts
+// CSS Color 4 颜色解析：把 hex / 命名色 / rgb / hsl / hwb / lab / lch / oklab / oklch / color()
+// 统一换算到 sRGB，再输出成同一个归一化 key（小写 hex6/hex8）
+
+export type Rgba = {
+  r: number;      // sRGB 通道（gamma 编码），0-1，可能超出色域
+  g: number;
+  b: number;
+  alpha: number;  // 0-1
+};
+
+type Vec3 = [number, number, number];
+type Mat3 = [Vec3, Vec3, Vec3];
+
+/**
+ * 解析任意 CSS 颜色，无法识别时返回 null
+ * 例如: #1E90FF / dodgerblue / rgb(30 144 255) / oklch(0.65 0.19 254) / color(display-p3 0.2 0.5 1)
+ */
+export function parseColor(value: string): Rgba | null {
+  const s = (value || '').trim().toLowerCase();
+  if (!s) { return null; }
+
+  if (s.startsWith('#')) { return parseHex(s); }
+  if (s === 'transparent') { return { r: 0, g: 0, b: 0, alpha: 0 }; }
+  if (Object.hasOwn(NAMED_COLORS, s)) { return parseHex('#' + NAMED_COLORS[s]); }
+
+  const fn = s.match(/^([a-z-]+)\((.*)\)$/);
+  if (!fn) { return null; }
+  const args = splitArgs(fn[2]);
+  if (!args) { return null; }
+
+  switch (fn[1]) {
+    case 'rgb':
+    case 'rgba':
+      return parseRgb(args);
+    case 'hsl':
+    case 'hsla':
+      return parseHsl(args);
+    case 'hwb':
+      return parseHwb(args);
+    case 'lab':
+      return parseLab(args);
+    case 'lch':
+      return parseLch(args);
+    case 'oklab':
+      return parseOklab(args);
+    case 'oklch':
+      return parseOklch(args);
+    case 'color':
+      return parseColorFunction(args);
+    default:
+      return null;
+  }
+}
+
+/**
+ * 颜色 → 归一化 key：不透明为 #rrggbb，半透明为 #rrggbbaa（超出 sRGB 色域的分量会被裁剪）
+ */
+export function toHexKey(color: Rgba): string {
+  const channels = [color.r, color.g, color.b].map(to8bit);
+  const alpha = to8bit(color.alpha);
+  if (alpha !== 255) { channels.push(alpha); }
+  return '#' + channels.map(c => c.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * 颜色值归一化，非颜色返回 null
+ */
+export function normalizeColor(value: string): string | null {
+  const color = parseColor(value);
+  return color ? toHexKey(color) : null;
+}
+
+/**
+ * sRGB → OKLab，返回 [L, a, b]
+ */
+export function toOklab(color: Rgba): Vec3 {
+  const [r, g, b] = [color.r, color.g, color.b].map(srgbToLinear);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  ];
+}
+
+/**
+ * 两个颜色在 OKLab 中的感知距离（ΔEOK × 100，约 2 以内肉眼难以分辨）
+ * 透明度差异按同样的比例计入
+ */
+export function deltaEOK(a: Rgba, b: Rgba): number {
+  const [l1, a1, b1] = toOklab(a);
+  const [l2, a2, b2] = toOklab(b);
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2, a.alpha - b.alpha) * 100;
+}
+
+// ---------- 各语法解析 ----------
+
+function parseHex(s: string): Rgba | null {
+  const m = s.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (!m) { return null; }
+  let hex = m[1];
+  if (hex.length <= 4) {
+    hex = hex.split('').map(c => c + c).join('');
+  }
+  const n = (i: number) => parseInt(hex.slice(i, i + 2), 16) / 255;
+  return { r: n(0), g: n(2), b: n(4), alpha: hex.length === 8 ? n(6) : 1 };
+}
+
+function parseRgb(args: ColorArgs): Rgba | null {
+  const [r, g, b] = args.channels.map(c => parseNumber(c, 255));
+  const alpha = parseAlpha(args.alpha);
+  if (!isValid(r, g, b, alpha)) { return null; }
+  return { r: r / 255, g: g / 255, b: b / 255, alpha };
+}
+
+function parseHsl(args: ColorArgs): Rgba | null {
+  const h = parseHue(args.channels[0]);
+  const s = parseNumber(args.channels[1], 100);
+  const l = parseNumber(args.channels[2], 100);
+  const alpha = parseAlpha(args.alpha);
+  if (!isValid(h, s, l, alpha)) { return null; }
+  const [r, g, b] = hslToRgb(h, s / 100, l / 100);
+  return { r, g, b, alpha };
+}
+
+function parseHwb(args: ColorArgs): Rgba | null {
+  const h = parseHue(args.channels[0]);
+  const w = parseNumber(args.channels[1], 100) / 100;
+  const bl = parseNumber(args.channels[2], 100) / 100;
+  const alpha = parseAlpha(args.alpha);
+  if (!isValid(h, w, bl, alpha)) { return null; }
+  if (w + bl >= 1) {
+    const gray = w / (w + bl);
+    return { r: gray, g: gray, b: gray, alpha };
+  }
+  const [r, g, b] = hslToRgb(h, 1, 0.5).map(c => c * (1 - w - bl) + w);
+  return { r, g, b, alpha };
+}
+
+function parseLab(args: ColorArgs): Rgba | null {
+  const l = parseNumber(args.channels[0], 100);
+  const a = parseNumber(args.channels[1], 125);
+  const b = parseNumber(args.channels[2], 125);
+  const alpha = parseAlpha(args.alpha);
+  if (!isValid(l, a, b, alpha)) { return null; }
+  return fromXyzD50(labToXyzD50([l, a, b]), alpha);
+}
+
+function parseLch(args: ColorArgs): Rgba | null {
+  const l = parseNumber(args.channels[0], 100);
+  const c = parseNumber(args.channels[1], 150);
+  const h = parseHue(args.channels[2]);
+  const alpha = parseAlpha(args.alpha);
+  if (!isValid(l, c, h, alpha)) { return null; }
+  const rad = h * Math.PI / 180;
+  return fromXyzD50(labToXyzD50([l, c * Math.cos(rad), c * Math.sin(rad)]), alpha);
+}
+
+function parseOklab(args: ColorArgs): Rgba | null {
+  const l = parseNumber(args.channels[0], 1);
+  const a = parseNumber(args.channels[1], 0.4);
+  const b = parseNumber(args.channels[2], 0.4);
+  const alpha = parseAlpha(args.alpha);
+  if (!isValid(l, a, b, alpha)) { return null; }
+  return fromLinearSrgb(oklabToLinearSrgb([l, a, b]), alpha);
+}
+
+function parseOklch(args: ColorArgs): Rgba | null {
+  const l = parseNumber(args.channels[0], 1);
+  const c = parseNumber(args.channels[1], 0.4);
+  const h = parseHue(args.channels[2]);
+  const alpha = parseAlpha(args.alpha);
+  if (!isValid(l, c, h, alpha)) { return null; }
+  const rad = h * Math.PI / 180;
+  return fromLinearSrgb(oklabToLinearSrgb([l, c * Math.cos(rad), c * Math.sin(rad)]), alpha);
+}
+
+// color(<space> c1 c2 c3 [/ alpha])
+function parseColorFunction(args: ColorArgs): Rgba | null {
+  const [space, ...rest] = args.channels;
+  if (rest.length !== 3) { return null; }
+  const v = rest.map(c => parseNumber(c, 1)) as Vec3;
+  const alpha = parseAlpha(args.alpha);
+  if (!isValid(...v, alpha)) { return null; }
+
+  switch (space) {
+    case 'srgb':
+      return { r: v[0], g: v[1], b: v[2], alpha };
+    case 'srgb-linear':
+      return fromLinearSrgb(v, alpha);
+    case 'display-p3':
+      return fromXyzD65(multiply(LIN_P3_TO_XYZ, v.map(srgbToLinear) as Vec3), alpha);
+    case 'a98-rgb':
+      return fromXyzD65(multiply(LIN_A98_TO_XYZ, v.map(a98ToLinear) as Vec3), alpha);
+    case 'prophoto-rgb':
+      return fromXyzD50(multiply(LIN_PROPHOTO_TO_XYZ_D50, v.map(prophotoToLinear) as Vec3), alpha);
+    case 'rec2020':
+      return fromXyzD65(multiply(LIN_REC2020_TO_XYZ, v.map(rec2020ToLinear) as Vec3), alpha);
+    case 'xyz':
+    case 'xyz-d65':
+      return fromXyzD65(v, alpha);
+    case 'xyz-d50':
+      return fromXyzD50(v, alpha);
+    default:
+      return null;
+  }
+}
+
+// ---------- 参数解析 ----------
+
+type ColorArgs = { channels: string[]; alpha?: string };
+
+// 支持旧语法 rgb(1, 2, 3, .5) 与新语法 rgb(1 2 3 / 50%)
+// 按 token 切分而不是按空白切分：csstree.generate 会输出 oklch(65.2%0.19 253) 这种省略空白的形式
+function splitArgs(body: string): ColorArgs | null {
+  const s = body.trim();
+  if (!s || /[()]/.test(s)) { return null; } // 嵌套的 calc()/var() 无法静态求值
+
+  const tokens: string[] = s.match(ARG_TOKEN) ?? [];
+  if (tokens.join('') !== s.replace(/\s+/g, '')) { return null; }
+
+  if (tokens.includes(',')) {
+    const parts = tokens.filter((_, i) => i % 2 === 0);
+    const commas = tokens.filter((_, i) => i % 2 === 1);
+    if (parts.length < 3 || parts.length > 4 || commas.some(c => c !== ',') || parts.includes(',')) { return null; }
+    return { channels: parts.slice(0, 3), alpha: parts[3] };
+  }
+
+  const slash = tokens.indexOf('/');
+  const channels = slash === -1 ? tokens : tokens.slice(0, slash);
+  const alpha = slash === -1 ? [] : tokens.slice(slash + 1);
+  if (alpha.length > 1 || (slash !== -1 && !alpha.length) || channels.includes('/')) { return null; }
+  // color() 的第一个参数是色彩空间
+  if (channels.length !== 3 && !(channels.length === 4 && /^[a-z]/.test(channels[0]) && channels[0] !== 'none')) {
+    return null;
+  }
+  return { channels, alpha: alpha[0] };
+}
+
+const ARG_TOKEN = /[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?(?:%|[a-z]+)?|[a-z][a-z0-9-]*|[,/]/g;
+
+// 数字或百分比；percentRef 为 100% 对应的数值；none 视为 0
+function parseNumber(token: string | undefined, percentRef: number): number {
+  if (token === undefined) { return NaN; }
+  if (token === 'none') { return 0; }
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?%?$/.test(token)) { return NaN; }
+  return token.endsWith('%')
+    ? parseFloat(token) / 100 * percentRef
+    : parseFloat(token);
+}
+
+function parseHue(token: string | undefined): number {
+  if (token === undefined) { return NaN; }
+  if (token === 'none') { return 0; }
+  const m = token.match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|rad|grad|turn)?$/);
+  if (!m) { return NaN; }
+  const n = parseFloat(m[1]);
+  const deg = m[2] === 'rad' ? n * 180 / Math.PI
+    : m[2] === 'grad' ? n * 0.9
+    : m[2] === 'turn' ? n * 360
+    : n;
+  return ((deg % 360) + 360) % 360;
+}
+
+function parseAlpha(token: string | undefined): number {
+  if (token === undefined) { return 1; }
+  const a = parseNumber(token, 1);
+  return Math.min(1, Math.max(0, a));
+}
+
+function isValid(...values: number[]): boolean {
+  return values.every(v => Number.isFinite(v));
+}
+
+function to8bit(v: number): number {
+  return Math.round(Math.min(1, Math.max(0, v)) * 255);
+}
+
+// ---------- 色彩空间换算 ----------
+
+function hslToRgb(h: number, s: number, l: number): Vec3 {
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const a = s * Math.min(l, 1 - l);
+    return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [f(0), f(8), f(4)];
+}
+
+function srgbToLinear(v: number): number {
+  const abs = Math.abs(v);
+  return abs <= 0.04045 ? v / 12.92 : Math.sign(v) * Math.pow((abs + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(v: number): number {
+  const abs = Math.abs(v);
+  return abs <= 0.0031308 ? v * 12.92 : Math.sign(v) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055);
+}
+
+function a98ToLinear(v: number): number {
+  return Math.sign(v) * Math.pow(Math.abs(v), 563 / 256);
+}
+
+function prophotoToLinear(v: number): number {
+  const abs = Math.abs(v);
+  return abs <= 16 / 512 ? v / 16 : Math.sign(v) * Math.pow(abs, 1.8);
+}
+
+function rec2020ToLinear(v: number): number {
+  const alpha = 1.09929682680944;
+  const beta = 0.018053968510807;
+  const abs = Math.abs(v);
+  return abs < beta * 4.5 ? v / 4.5 : Math.sign(v) * Math.pow((abs + alpha - 1) / alpha, 1 / 0.45);
+}
+
+function labToXyzD50([l, a, b]: Vec3): Vec3 {
+  const kappa = 24389 / 27;
+  const epsilon = 216 / 24389;
+  const f1 = (l + 16) / 116;
+  const f0 = a / 500 + f1;
+  const f2 = f1 - b / 200;
+  const xyz: Vec3 = [
+    Math.pow(f0, 3) > epsilon ? Math.pow(f0, 3) : (116 * f0 - 16) / kappa,
+    l > kappa * epsilon ? Math.pow(f1, 3) : l / kappa,
+    Math.pow(f2, 3) > epsilon ? Math.pow(f2, 3) : (116 * f2 - 16) / kappa,
+  ];
+  return [xyz[0] * D50_WHITE[0], xyz[1] * D50_WHITE[1], xyz[2] * D50_WHITE[2]];
+}
+
+function oklabToLinearSrgb([l, a, b]: Vec3): Vec3 {
+  const l_ = Math.pow(l + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m_ = Math.pow(l - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s_ = Math.pow(l - 0.0894841775 * a - 1.2914855480 * b, 3);
+  return [
+    4.0767416621 * l_ - 3.3077115913 * m_ + 0.2309699292 * s_,
+    -1.2684380046 * l_ + 2.6097574011 * m_ - 0.3413193965 * s_,
+    -0.0041960863 * l_ - 0.7034186147 * m_ + 1.7076147010 * s_,
+  ];
+}
+
+function fromLinearSrgb(v: Vec3, alpha: number): Rgba {
+  const [r, g, b] = v.map(linearToSrgb);
+  return { r, g, b, alpha };
+}
+
+function fromXyzD65(xyz: Vec3, alpha: number): Rgba {
+  return fromLinearSrgb(multiply(XYZ_TO_LIN_SRGB, xyz), alpha);
+}
+
+function fromXyzD50(xyz: Vec3, alpha: number): Rgba {
+  return fromXyzD65(multiply(D50_TO_D65, xyz), alpha);
+}
+
+function multiply(m: Mat3, v: Vec3): Vec3 {
+  return [
+    m[0][0] * v[0] + m[0][1] * v[1] + m[0][2] * v[2],
+    m[1][0] * v[0] + m[1][1] * v[1] + m[1][2] * v[2],
+    m[2][0] * v[0] + m[2][1] * v[1] + m[2][2] * v[2],
+  ];
+}
+
+// 换算矩阵取自 CSS Color 4 规范示例代码
+const D50_WHITE: Vec3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+const XYZ_TO_LIN_SRGB: Mat3 = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+
+const D50_TO_D65: Mat3 = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+];
+
+const LIN_P3_TO_XYZ: Mat3 = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+
+const LIN_A98_TO_XYZ: Mat3 = [
+  [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+  [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+  [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+];
+
+const LIN_PROPHOTO_TO_XYZ_D50: Mat3 = [
+  [0.7977604896723027, 0.13518583717574031, 0.0313493495815248],
+  [0.2880711282292934, 0.7118432178101014, 0.00008565396060525902],
+  [0, 0, 0.8251046025104601],
+];
+
+const LIN_REC2020_TO_XYZ: Mat3 = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791],
+];
+
+// CSS 命名颜色
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: 'f0f8ff', antiquewhite: 'faebd7', aqua: '00ffff', aquamarine: '7fffd4',
+  azure: 'f0ffff', beige: 'f5f5dc', bisque: 'ffe4c4', black: '000000',
+  blanchedalmond: 'ffebcd', blue: '0000ff', blueviolet: '8a2be2', brown: 'a52a2a',
+  burlywood: 'deb887', cadetblue: '5f9ea0', chartreuse: '7fff00', chocolate: 'd2691e',
+  coral: 'ff7f50', cornflowerblue: '6495ed', cornsilk: 'fff8dc', crimson: 'dc143c',
+  cyan: '00ffff', darkblue: '00008b', darkcyan: '008b8b', darkgoldenrod: 'b8860b',
+  darkgray: 'a9a9a9', darkgreen: '006400', darkgrey: 'a9a9a9', darkkhaki: 'bdb76b',
+  darkmagenta: '8b008b', darkolivegreen: '556b2f', darkorange: 'ff8c00', darkorchid: '9932cc',
+  darkred: '8b0000', darksalmon: 'e9967a', darkseagreen: '8fbc8f', darkslateblue: '483d8b',
+  darkslategray: '2f4f4f', darkslategrey: '2f4f4f', darkturquoise: '00ced1', darkviolet: '9400d3',
+  deeppink: 'ff1493', deepskyblue: '00bfff', dimgray: '696969', dimgrey: '696969',
+  dodgerblue: '1e90ff', firebrick: 'b22222', floralwhite: 'fffaf0', forestgreen: '228b22',
+  fuchsia: 'ff00ff', gainsboro: 'dcdcdc', ghostwhite: 'f8f8ff', gold: 'ffd700',
+  goldenrod: 'daa520', gray: '808080', green: '008000', greenyellow: 'adff2f',
+  grey: '808080', honeydew: 'f0fff0', hotpink: 'ff69b4', indianred: 'cd5c5c',
+  indigo: '4b0082', ivory: 'fffff0', khaki: 'f0e68c', lavender: 'e6e6fa',
+  lavenderblush: 'fff0f5', lawngreen: '7cfc00', lemonchiffon: 'fffacd', lightblue: 'add8e6',
+  lightcoral: 'f08080', lightcyan: 'e0ffff', lightgoldenrodyellow: 'fafad2', lightgray: 'd3d3d3',
+  lightgreen: '90ee90', lightgrey: 'd3d3d3', lightpink: 'ffb6c1', lightsalmon: 'ffa07a',
+  lightseagreen: '20b2aa', lightskyblue: '87cefa', lightslategray: '778899', lightslategrey: '778899',
+  lightsteelblue: 'b0c4de', lightyellow: 'ffffe0', lime: '00ff00', limegreen: '32cd32',
+  linen: 'faf0e6', magenta: 'ff00ff', maroon: '800000', mediumaquamarine: '66cdaa',
+  mediumblue: '0000cd', mediumorchid: 'ba55d3', mediumpurple: '9370db', mediumseagreen: '3cb371',
+  mediumslateblue: '7b68ee', mediumspringgreen: '00fa9a', mediumturquoise: '48d1cc', mediumvioletred: 'c71585',
+  midnightblue: '191970', mintcream: 'f5fffa', mistyrose: 'ffe4e1', moccasin: 'ffe4b5',
+  navajowhite: 'ffdead', navy: '000080', oldlace: 'fdf5e6', olive: '808000',
+  olivedrab: '6b8e23', orange: 'ffa500', orangered: 'ff4500', orchid: 'da70d6',
+  palegoldenrod: 'eee8aa', palegreen: '98fb98', paleturquoise: 'afeeee', palevioletred: 'db7093',
+  papayawhip: 'ffefd5', peachpuff: 'ffdab9', peru: 'cd853f', pink: 'ffc0cb',
+  plum: 'dda0dd', powderblue: 'b0e0e6', purple: '800080', rebeccapurple: '663399',
+  red: 'ff0000', rosybrown: 'bc8f8f', royalblue: '4169e1', saddlebrown: '8b4513',
+  salmon: 'fa8072', sandybrown: 'f4a460', seagreen: '2e8b57', seashell: 'fff5ee',
+  sienna: 'a0522d', silver: 'c0c0c0', skyblue: '87ceeb', slateblue: '6a5acd',
+  slategray: '708090', slategrey: '708090', snow: 'fffafa', springgreen: '00ff7f',
+  steelblue: '4682b4', tan: 'd2b48c', teal: '008080', thistle: 'd8bfd8',
+  tomato: 'ff6347', turquoise: '40e0d0', violet: 'ee82ee', wheat: 'f5deb3',
+  white: 'ffffff', whitesmoke: 'f5f5f5', yellow: 'ffff00', yellowgreen: '9acd32',
+};
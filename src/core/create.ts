@@ -0,0 +1,157 @@
+// src/core/create.ts
+// 新增 token：命名建议 + 计算在目标文件中的插入位置
+import * as csstree from 'css-tree';
+import type { CssNode, Rule, Atrule } from 'css-tree';
+import type { TokenCategory } from './category';
+
+export type TokenBlock = '@theme' | '@theme inline' | ':root';
+
+export const TOKEN_BLOCKS: TokenBlock[] = ['@theme', '@theme inline', ':root'];
+
+export type TokenInsertion = {
+  offset: number;        // 插入位置（字符偏移）
+  text: string;          // 插入的文本
+  created: boolean;      // 是否新建了 block
+};
+
+// 类别 → Tailwind v4 命名空间前缀
+const CATEGORY_PREFIX: Record<TokenCategory, string> = {
+  color: '--color-',
+  spacing: '--spacing-',
+  radius: '--radius-',
+  shadow: '--shadow-',
+  other: '--token-',
+};
+
+/**
+ * 根据值和类别生成候选 token 名称，已存在的名称会追加序号
+ * 例如: #1E90FF (color) -> ['--color-1e90ff', '--color-new']
+ *      16px (spacing) -> ['--spacing-16', '--spacing-new']
+ *
+ * @param value 原始 CSS 值
+ * @param category 值的类别
+ * @param exists 判断名称是否已被占用
+ */
+export function suggestTokenNames(
+  value: string,
+  category: TokenCategory,
+  exists: (name: string) => boolean = () => false
+): string[] {
+  const prefix = CATEGORY_PREFIX[category];
+  const slug = slugifyValue(value, category);
+  const bases = slug ? [prefix + slug, prefix + 'new'] : [prefix + 'new'];
+
+  return bases.map(base => {
+    let name = base;
+    for (let i = 2; exists(name); i++) {
+      name = `${base}-${i}`;
+    }
+    return name;
+  });
+}
+
+/**
+ * 判断 token 名称是否合法（必须是 -- 开头的自定义属性名）
+ */
+export function isValidTokenName(name: string): boolean {
+  return /^--[a-zA-Z0-9_-]+$/.test(name.trim());
+}
+
+/**
+ * 判断文件能否写入新 token：planTokenInsertion 只会生成花括号语法的 CSS 声明，
+ * DTCG JSON、JS / TS 主题对象以及 .sass / .styl 缩进语法文件写入后会被破坏
+ */
+export function canInsertTokenInto(fileName: string): boolean {
+  return /\.(css|pcss|postcss|scss|less)$/i.test(fileName);
+}
+
+/**
+ * 计算在 css 文本中插入 `name: value;` 的位置
+ * - 目标 block 已存在：插入到 block 最后一条声明之后，沿用其缩进
+ * - 目标 block 不存在：在文件末尾新建 block
+ */
+export function planTokenInsertion(css: string, block: TokenBlock, name: string, value: string): TokenInsertion {
+  const range = findBlockRange(css, block);
+
+  if (!range) {
+    const sep = !css.length ? '' : css.endsWith('\n') ? '\n' : '\n\n';
+    return {
+      offset: css.length,
+      text: `${sep}${block} {\n  ${name}: ${value};\n}\n`,
+      created: true,
+    };
+  }
+
+  // range.end 指向 block 的 '}'，向前找到最后一个非空白字符
+  let pos = range.end;
+  while (pos > range.start && /\s/.test(css[pos - 1])) { pos--; }
+  const last = css[pos - 1];
+  const needSemicolon = last !== ';' && last !== '{' && !css.slice(0, pos).endsWith('*/');
+
+  return {
+    offset: pos,
+    text: `${needSemicolon ? ';' : ''}\n${detectIndent(css, range)}${name}: ${value};`,
+    created: false,
+  };
+}
+
+/**
+ * 判断 css 中是否已经存在目标 block
+ */
+export function hasTokenBlock(css: string, block: TokenBlock): boolean {
+  return !!findBlockRange(css, block);
+}
+
+// ---------- 辅助函数 ----------
+
+// 返回 block 的 '{' 之后与 '}' 所在的偏移
+function findBlockRange(css: string, block: TokenBlock): { start: number; end: number } | undefined {
+  let ast: CssNode;
+  try {
+    ast = csstree.parse(css, { positions: true, parseValue: false, parseCustomProperty: false });
+  } catch {
+    return undefined;
+  }
+
+  let found: { start: number; end: number } | undefined;
+  csstree.walk(ast, (node: CssNode) => {
+    if (found) { return; }
+    if (node.type === 'Atrule' && (node as Atrule).name === 'theme' && block !== ':root') {
+      const at = node as Atrule;
+      const prelude = at.prelude ? csstree.generate(at.prelude).trim() : '';
+      const wanted = block === '@theme inline' ? 'inline' : '';
+      if (at.block?.loc && prelude === wanted) {
+        found = { start: at.block.loc.start.offset + 1, end: at.block.loc.end.offset - 1 };
+      }
+    }
+    if (node.type === 'Rule' && block === ':root') {
+      const rule = node as Rule;
+      if (rule.block.loc && csstree.generate(rule.prelude).trim() === ':root') {
+        found = { start: rule.block.loc.start.offset + 1, end: rule.block.loc.end.offset - 1 };
+      }
+    }
+  });
+  return found;
+}
+
+// 沿用 block 内第一条声明的缩进，默认两个空格
+function detectIndent(css: string, range: { start: number; end: number }): string {
+  const m = css.slice(range.start, range.end).match(/\n([ \t]+)\S/);
+  return m ? m[1] : '  ';
+}
+
+function slugifyValue(value: string, category: TokenCategory): string {
+  const s = value.trim().toLowerCase();
+  if (category === 'color') {
+    const hex = s.match(/^#([0-9a-f]{3,8})$/);
+    return hex ? hex[1] : '';
+  }
+  if (category === 'spacing' || category === 'radius') {
+    // 16px -> 16，1.5rem -> 1_5rem
+    const m = s.match(/^(-?\d*\.?\d+)(px|rem|em)$/);
+    if (!m) { return ''; }
+    const num = m[1].replace('.', '_');
+    return m[2] === 'px' ? num : num + m[2];
+  }
+  return '';
+}
@@ -0,0 +1,95 @@
+// src/core/declarationContext.ts
+// 判断文本中的某个位置是否位于 CSS 声明的值中：规则块内的 color: |、style="color: |"、<style> 块中的规则
+import * as csstree from 'css-tree';
+
+export type DeclarationContext = {
+  property: string;      // 声明的属性名，如 color / --spacing-md
+  valueStart: number;    // 光标所在单词（待替换部分）的开始位置
+};
+
+// 最多向前查找的字符数，避免在大文件中逐字回溯
+const LOOKBEHIND = 4000;
+
+// style="color: red; padding: |
+const STYLE_ATTRIBUTE = /(?:^|[\s<])style\s*=\s*(["'])([^"']*)$/;
+
+// 声明片段：属性名 + 冒号（排除 ::before）+ 已输入的值
+const DECLARATION = /^\s*(--[\w-]*|-?[a-zA-Z][\w-]*)\s*:(?!:)([\s\S]*)$/;
+
+/**
+ * 判断 offset 是否位于 CSS 声明的值中，是时返回属性名与待替换单词的开始位置
+ * 例如: .btn { color: #1e| }、<div style="padding: 0 1|">、<style> 中的 .btn { margin: | }
+ * 选择器（a:h、li:first-）、规则块外的文本与注释不是声明
+ *
+ * @param embedded 是否为 html / vue / svelte 这类在 style 属性或 <style> 块中写 CSS 的文件
+ */
+export function findDeclarationContext(text: string, offset: number, embedded = false): DeclarationContext | undefined {
+  const start = Math.max(0, offset - LOOKBEHIND);
+  let before = text.substring(start, offset);
+
+  if (embedded) {
+    const attribute = before.match(STYLE_ATTRIBUTE);
+    if (attribute) {
+      // style 属性中没有规则块，从最后一个 ; 开始就是当前声明
+      return matchDeclaration(attribute[2].substring(attribute[2].lastIndexOf(';') + 1), offset);
+    }
+    // 只处理未闭合的 <style> 块中的内容
+    const open = before.toLowerCase().lastIndexOf('<style');
+    const tagEnd = before.indexOf('>', open);
+    if (open === -1 || tagEnd === -1 || before.toLowerCase().includes('</style', open)) { return undefined; }
+    before = before.substring(tagEnd + 1);
+  }
+
+  const segment = currentSegment(before);
+  return segment === undefined ? undefined : matchDeclaration(segment, offset);
+}
+
+// ---------- 辅助函数 ----------
+
+// 跳过注释与字符串，返回光标所在规则块中从最后一个 { ; } 到光标的片段；不在规则块中、位于注释或字符串中时返回 undefined
+function currentSegment(css: string): string | undefined {
+  let depth = 0;
+  let parens = 0;
+  let segmentStart = 0;
+  let quote: string | undefined;
+  for (let i = 0; i < css.length; i++) {
+    const ch = css[i];
+    if (quote) {
+      if (ch === '\\') { i++; } else if (ch === quote) { quote = undefined; }
+      continue;
+    }
+    if (ch === '/' && css[i + 1] === '*') {
+      const end = css.indexOf('*/', i + 2);
+      if (end === -1) { return undefined; }
+      i = end + 1;
+      continue;
+    }
+    if (ch === '"' || ch === "'") { quote = ch; continue; }
+    if (ch === '(') { parens++; continue; }
+    if (ch === ')') { parens = Math.max(0, parens - 1); continue; }
+    // url(data:...;base64,...) 中的 ; 不结束声明
+    if (ch === ';' && parens) { continue; }
+    if (ch === '{' || ch === '}' || ch === ';') {
+      depth = ch === '{' ? depth + 1 : ch === '}' ? Math.max(0, depth - 1) : depth;
+      parens = 0;
+      segmentStart = i + 1;
+    }
+  }
+  // 规则块外（顶层选择器、@media 条件）不是声明
+  return quote || !depth ? undefined : css.substring(segmentStart);
+}
+
+// 片段是否为已知属性（或自定义属性）的声明；嵌套规则的选择器（a:hover、li:first-child）中冒号前不是属性名
+function matchDeclaration(segment: string, offset: number): DeclarationContext | undefined {
+  const match = segment.match(DECLARATION);
+  if (!match) { return undefined; }
+  const property = match[1];
+  if (!property.startsWith('--') && !isKnownProperty(property)) { return undefined; }
+  const word = match[2].match(/[^\s;{}]*$/)![0];
+  return { property, valueStart: offset - word.length };
+}
+
+// css-tree 的属性语法表中有该属性（含浏览器前缀）；未知属性匹配 inherit 时返回 SyntaxReferenceError
+function isKnownProperty(property: string): boolean {
+  return csstree.lexer.matchProperty(property, 'inherit').error?.name !== 'SyntaxReferenceError';
+}
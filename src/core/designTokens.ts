@@ -0,0 +1,131 @@
+// src/core/designTokens.ts
+// 解析 W3C DTCG（$value / $type）与 Style Dictionary（value / type）格式的 design token JSON
+
+export type DesignToken = {
+  name: string;          // 映射后的 CSS 变量名，如 color.blue.500 -> --color-blue-500
+  value: string;         // 转换为 CSS 的值，别名 {color.blue.500} 转为 var(--color-blue-500)
+  type?: string;         // $type / type（DTCG 中可从父级分组继承）
+  offset: number;        // token 在 JSON 文件中的字符偏移（用于跳转到定义）
+};
+
+export type DesignTokenNaming = {
+  prefix?: string;       // 变量名前缀，如 ds -> --ds-color-blue-500
+  separator?: string;    // 路径分隔符，默认 -
+};
+
+/**
+ * 解析 design token JSON，无法解析时返回空数组
+ * 例如: { "color": { "blue": { "500": { "$value": "#1e90ff", "$type": "color" } },
+ *                   "primary": { "$value": "{color.blue.500}" } } }
+ *   -> [{ name: '--color-blue-500', value: '#1e90ff', type: 'color' },
+ *       { name: '--color-primary', value: 'var(--color-blue-500)', type: 'color' }]
+ */
+export function parseDesignTokens(json: string, naming: DesignTokenNaming = {}): DesignToken[] {
+  let root: unknown;
+  try {
+    root = JSON.parse(json);
+  } catch {
+    return [];
+  }
+
+  const results: DesignToken[] = [];
+  const toName = (path: string[]) => designTokenName(path, naming);
+
+  const visit = (node: unknown, path: string[], inheritedType: string | undefined, searchFrom: number) => {
+    if (!isObject(node)) { return; }
+    const type = typeof node.$type === 'string' ? node.$type : inheritedType;
+
+    const raw = '$value' in node ? node.$value : isStyleDictionaryToken(node) ? node.value : undefined;
+    if (raw !== undefined) {
+      const value = toCssValue(raw, toName);
+      if (value) {
+        results.push({
+          name: toName(path),
+          value,
+          type: type ?? (typeof node.type === 'string' ? node.type : undefined),
+          offset: searchFrom,
+        });
+      }
+      return;
+    }
+
+    for (const [key, child] of Object.entries(node)) {
+      if (key.startsWith('$')) { continue; } // $description / $extensions 等元数据
+      visit(child, [...path, key], type, findKeyOffset(json, key, searchFrom));
+    }
+  };
+
+  visit(root, [], undefined, 0);
+  return results;
+}
+
+/**
+ * token 路径映射为 CSS 变量名：各段转为 kebab-case 后用分隔符连接
+ * 例如: ['color', 'brandPrimary'] -> --color-brand-primary
+ */
+export function designTokenName(path: string[], naming: DesignTokenNaming = {}): string {
+  const separator = naming.separator ?? '-';
+  const segments = path.map(p =>
+    p.replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/[\s_.]+/g, '-').toLowerCase()
+  );
+  return `--${[naming.prefix, ...segments].filter(Boolean).join(separator)}`;
+}
+
+// ---------- 值转换 ----------
+
+// 别名引用：{color.blue.500}
+const ALIAS = /\{([^{}]+)\}/g;
+
+function toCssValue(raw: unknown, toName: (path: string[]) => string): string | undefined {
+  if (typeof raw === 'string') {
+    return raw.replace(ALIAS, (_, ref: string) => `var(${toName(ref.split('.'))})`).trim() || undefined;
+  }
+  if (typeof raw === 'number') { return String(raw); }
+  if (Array.isArray(raw)) {
+    // cubicBezier: [0.4, 0, 0.2, 1]；fontFamily: ['Inter', 'sans-serif']；多层阴影
+    if (raw.length === 4 && raw.every(n => typeof n === 'number')) {
+      return `cubic-bezier(${raw.join(', ')})`;
+    }
+    const parts = raw.map(r => toCssValue(r, toName));
+    return parts.every(Boolean) ? parts.join(', ') : undefined;
+  }
+  if (!isObject(raw)) { return undefined; }
+
+  // dimension / duration: { value: 16, unit: 'px' }
+  if (typeof raw.value === 'number' && typeof raw.unit === 'string') {
+    return `${raw.value}${raw.unit}`;
+  }
+  // color: { colorSpace: 'srgb', components: [...], hex: '#1e90ff' }
+  if (typeof raw.hex === 'string') { return raw.hex; }
+  // shadow: { color, offsetX, offsetY, blur, spread, inset }
+  if ('offsetX' in raw && 'offsetY' in raw) {
+    const part = (v: unknown) => toCssValue(v, toName) ?? '0';
+    return [
+      raw.inset === true ? 'inset' : '',
+      part(raw.offsetX), part(raw.offsetY), part(raw.blur), part(raw.spread),
+      toCssValue(raw.color, toName) ?? '',
+    ].filter(Boolean).join(' ');
+  }
+  // border: { width, style, color }
+  if ('width' in raw && 'style' in raw && 'color' in raw) {
+    return [raw.width, raw.style, raw.color].map(v => toCssValue(v, toName)).filter(Boolean).join(' ');
+  }
+  return undefined; // typography 等复合 token 没有单一的 CSS 值
+}
+
+// ---------- 辅助函数 ----------
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Style Dictionary：有 value 字段且不是 { value, unit } 形式的维度值
+function isStyleDictionaryToken(node: Record<string, unknown>): boolean {
+  return 'value' in node && !('unit' in node);
+}
+
+// 按路径依次在原文中查找键名，得到近似的定义位置
+function findKeyOffset(json: string, key: string, from: number): number {
+  const index = json.indexOf(JSON.stringify(key), from);
+  return index === -1 ? from : index;
+}
@@ -0,0 +1,172 @@
+// src/core/dialect.ts
+// 预处理器方言（SCSS / Less / Stylus / PostCSS）：容错预处理与方言变量（$primary / @primary）提取
+
+export type StyleDialect = 'css' | 'postcss' | 'scss' | 'less' | 'stylus';
+
+export type DialectVariable = {
+  name: string;          // 含前缀的变量名，如 $primary / @primary
+  value: string;         // 变量值，如 #1e90ff / $blue
+  offset: number;        // 变量名在文件中的字符偏移
+  end: number;           // 整条声明（含结尾分号）结束的偏移
+};
+
+export type StylusCustomProperty = {
+  name: string;
+  value: string;
+  offset: number;
+  selector: string;      // 按缩进推断出的所属选择器
+};
+
+const DIALECTS: Record<string, StyleDialect> = {
+  pcss: 'postcss',
+  postcss: 'postcss',
+  scss: 'scss',
+  sass: 'scss',
+  less: 'less',
+  styl: 'stylus',
+  stylus: 'stylus',
+};
+
+export function detectDialect(fileName: string): StyleDialect {
+  const m = fileName.match(/\.([a-z]+)$/i);
+  return (m && DIALECTS[m[1].toLowerCase()]) || 'css';
+}
+
+/**
+ * 注释替换为等长空白，保持偏移与行号不变；字符串与 url(...) 中的 // 和 /* 不是注释（url(//cdn.example.com/x.png)）
+ */
+export function maskComments(text: string): string {
+  const parts: string[] = [];
+  let last = 0;
+  let quote: string | undefined;
+  let inUrl = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      // CSS 字符串不能跨行，遇到换行视为未闭合的字符串结束
+      if (ch === '\\') { i++; } else if (ch === quote || ch === '\n') { quote = undefined; }
+      continue;
+    }
+    if (inUrl) {
+      if (ch === ')') { inUrl = false; }
+      continue;
+    }
+    if (ch === '"' || ch === "'") { quote = ch; continue; }
+    if (ch === '(' && text.slice(i - 3, i).toLowerCase() === 'url') { inUrl = true; continue; }
+    if (ch !== '/' || (text[i + 1] !== '*' && text[i + 1] !== '/')) { continue; }
+    const close = text[i + 1] === '*' ? text.indexOf('*/', i + 2) : text.indexOf('\n', i);
+    const end = close === -1 ? text.length : text[i + 1] === '*' ? close + 2 : close;
+    parts.push(text.slice(last, i), text.slice(i, end).replace(/[^\n]/g, ' '));
+    last = end;
+    i = end - 1;
+  }
+  parts.push(text.slice(last));
+  return parts.join('');
+}
+
+/**
+ * 提取顶层（全局）方言变量，规则内部的局部变量不算 token
+ * - SCSS: $primary: #1e90ff !default;
+ * - Less: @primary: #1e90ff;
+ * - Stylus: $primary = #1e90ff（不带 $ 的 Stylus 变量与普通标识符无法区分，不索引）
+ *
+ * @param text 已经过 maskComments 的文件内容
+ */
+export function extractDialectVariables(text: string, dialect: StyleDialect): DialectVariable[] {
+  const re =
+    dialect === 'scss' ? /(\$[\w-]+)\s*:\s*([^;{}]+?)(?:\s*!(?:default|global))*\s*;/g :
+    dialect === 'less' ? /(@[\w-]+)\s*:\s*([^;{}]+?)\s*;/g :
+    dialect === 'stylus' ? /^(\$[\w-]+)\s*=\s*([^;\n]+?)\s*;?[ \t]*$/gm :
+    undefined;
+  if (!re) { return []; }
+
+  const results: DialectVariable[] = [];
+  const depthAt = braceDepthCounter(text);
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    if (depthAt(m.index) !== 0) { continue; }
+    // 括号不配对说明是 @include x($a: 1) 之类的参数，不是变量声明
+    if (m[2].split('(').length !== m[2].split(')').length) { continue; }
+    results.push({ name: m[1], value: m[2].trim(), offset: m.index, end: m.index + m[0].length });
+  }
+  return results;
+}
+
+/**
+ * 把方言变量声明替换为等长空白，剩下的内容交给 css-tree 解析
+ */
+export function maskDialectVariables(text: string, variables: DialectVariable[]): string {
+  let result = text;
+  for (const v of variables) {
+    result = result.substring(0, v.offset) + result.substring(v.offset, v.end).replace(/[^\n]/g, ' ') + result.substring(v.end);
+  }
+  return result;
+}
+
+/**
+ * Stylus 缩进语法中的自定义属性：按缩进找到所属的选择器
+ * 例如:
+ *   :root
+ *     --color-primary #1e90ff
+ * -> [{ name: '--color-primary', value: '#1e90ff', selector: ':root' }]
+ */
+export function extractStylusCustomProperties(text: string): StylusCustomProperty[] {
+  const results: StylusCustomProperty[] = [];
+  const lines = text.split('\n');
+  let offset = 0;
+  for (const [i, line] of lines.entries()) {
+    const m = line.match(/^(\s+)(--[\w-]+)\s*(?::\s*|\s+)([^;]+?)\s*;?\s*$/);
+    if (m) {
+      const selector = findParentSelector(lines, i, m[1].length);
+      if (selector) {
+        results.push({ name: m[2], value: m[3], offset: offset + m[1].length, selector });
+      }
+    }
+    offset += line.length + 1;
+  }
+  return results;
+}
+
+/**
+ * token 能否在某个文件中使用：自定义属性到处可用，方言变量只能用于对应的预处理器文件，
+ * tailwind.config 的 theme(...) 只能用于样式，JS 主题对象的 theme.x.y 只能用于脚本
+ * 例如: isTokenUsableIn('$primary', 'a.scss') -> true；isTokenUsableIn('$primary', 'a.css') -> false
+ *      isTokenUsableIn('theme.colors.primary', 'Button.tsx') -> true
+ */
+export function isTokenUsableIn(name: string, fileName: string): boolean {
+  if (name.startsWith('--')) { return true; }
+  const isScript = /\.[cm]?[jt]sx?$/i.test(fileName);
+  if (name.startsWith('theme(')) { return !isScript; }
+  if (/^theme[.[]/.test(name)) { return isScript; }
+  const dialect = detectDialect(fileName);
+  return name.startsWith('$')
+    ? dialect === 'scss' || dialect === 'stylus'
+    : dialect === 'less';
+}
+
+// ---------- 辅助函数 ----------
+
+// 返回计算某个偏移处花括号嵌套深度的函数，偏移需递增调用，整体只扫描一遍
+function braceDepthCounter(text: string): (offset: number) => number {
+  let depth = 0;
+  let pos = 0;
+  return (offset) => {
+    for (; pos < offset; pos++) {
+      if (text[pos] === '{') { depth++; }
+      if (text[pos] === '}') { depth = Math.max(0, depth - 1); }
+    }
+    return depth;
+  };
+}
+
+function findParentSelector(lines: string[], index: number, indent: number): string | undefined {
+  for (let i = index - 1; i >= 0; i--) {
+    const line = lines[i];
+    if (!line.trim()) { continue; }
+    const lineIndent = line.match(/^\s*/)![0].length;
+    if (lineIndent < indent) {
+      return line.trim().replace(/\s*\{$/, '') || undefined;
+    }
+  }
+  return undefined;
+}
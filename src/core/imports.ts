@@ -0,0 +1,122 @@
+// src/core/imports.ts
+// 入口样式表的导入图：从 @import / @use / @forward / @reference 出发找到所有间接引入的 token 文件
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { maskComments } from './dialect';
+import { resolvePackageImport } from './packages';
+
+export type StyleImport = {
+  specifier: string;     // 导入路径，如 ./tokens/colors.css / tailwindcss / open-props/style
+  offset: number;        // @import 等规则在文件中的字符偏移
+};
+
+export type ImportedFile = {
+  file: string;          // 文件绝对路径
+  entry: string;         // 通过哪个入口文件引入（入口文件自身为它自己）
+  package?: string;      // 位于第三方包中时为导入时的包说明符，如 tailwindcss
+};
+
+// 导入规则：@import（CSS / SCSS / Less / Stylus）、@use / @forward（SCSS）、@reference（Tailwind v4）、@require（Stylus）
+const IMPORT_RULE = /@(?:import|use|forward|reference|require)\b([^;{}\n]*)/g;
+
+// 规则开头的导入目标：Less 的 (reference) 选项、url(...) 或字符串，SCSS / Stylus 可以用逗号列出多个
+const IMPORT_TARGET = /^\s*(?:\([^)]*\)\s*)?(?:url\(\s*(["']?)([^"')\s]+)\1\s*\)|(["'])([^"']+)\3)\s*,?/;
+
+// 没有扩展名时依次尝试的扩展名
+const STYLE_EXTENSIONS = ['.css', '.scss', '.sass', '.less', '.styl', '.pcss'];
+
+/**
+ * 提取文件中的导入，layer() / supports() / 媒体查询等条件以及 as / with 子句被忽略
+ * 例如: @import "./tokens.css" layer(base) supports(display: grid); -> [{ specifier: './tokens.css' }]
+ *      @use "sass:math"; / @import url(https://fonts.googleapis.com/...) -> 跳过
+ */
+export function extractImports(text: string): StyleImport[] {
+  const masked = maskComments(text);
+  const results: StyleImport[] = [];
+  let m: RegExpExecArray | null;
+  IMPORT_RULE.lastIndex = 0;
+  while ((m = IMPORT_RULE.exec(masked))) {
+    let rest = m[1];
+    let target: RegExpMatchArray | null;
+    while ((target = rest.match(IMPORT_TARGET))) {
+      const specifier = target[2] ?? target[4];
+      if (!/^(?:[a-z][\w+.-]*:|\/\/)/i.test(specifier)) { // 跳过 https: / data: / sass: 与协议相对地址
+        results.push({ specifier, offset: m.index });
+      }
+      rest = rest.substring(target[0].length);
+    }
+  }
+  return results;
+}
+
+/**
+ * 解析导入路径对应的文件
+ * - 相对 / 绝对路径：补全扩展名，SCSS 还会尝试 _partial 与 _index 文件
+ * - 包名（tailwindcss / ~open-props/style）：从 node_modules 中按 exports / style 字段解析
+ */
+export async function resolveImport(
+  specifier: string,
+  fromFile: string
+): Promise<{ file: string; package?: string } | undefined> {
+  const dir = path.dirname(fromFile);
+  if (/^\.{0,2}\//.test(specifier) || path.isAbsolute(specifier)) {
+    const file = await findStyleFile(path.resolve(dir, specifier));
+    return file ? { file } : undefined;
+  }
+  const bare = specifier.replace(/^~/, '');
+  const file = await resolvePackageImport(bare, dir) ?? await findStyleFile(path.resolve(dir, specifier));
+  if (!file) { return undefined; }
+  // Less / Sass 中的 @import "tokens" 也可能是相对路径
+  return file.includes(`${path.sep}node_modules${path.sep}`) ? { file, package: bare } : { file };
+}
+
+/**
+ * 从入口文件出发沿导入图广度优先遍历，每个文件记录最先到达它的入口；循环导入只访问一次
+ */
+export async function collectImportGraph(entries: string[]): Promise<ImportedFile[]> {
+  const visited = new Map<string, ImportedFile>();
+  const queue: ImportedFile[] = entries.map(entry => ({ file: entry, entry }));
+  while (queue.length) {
+    const current = queue.shift()!;
+    if (visited.has(current.file)) { continue; }
+    visited.set(current.file, current);
+
+    let text: string;
+    try {
+      text = await fs.readFile(current.file, 'utf8');
+    } catch {
+      continue;
+    }
+    if (/\.json$/i.test(current.file)) { continue; }
+    for (const { specifier } of extractImports(text)) {
+      const resolved = await resolveImport(specifier, current.file);
+      if (!resolved || visited.has(resolved.file)) { continue; }
+      // 包内部的相对导入沿用包说明符
+      queue.push({ file: resolved.file, entry: current.entry, package: resolved.package ?? current.package });
+    }
+  }
+  return [...visited.values()];
+}
+
+// ---------- 辅助函数 ----------
+
+async function findStyleFile(base: string): Promise<string | undefined> {
+  const dir = path.dirname(base);
+  const name = path.basename(base);
+  const candidates = path.extname(name)
+    ? [base, path.join(dir, `_${name}`)]
+    : [
+      ...STYLE_EXTENSIONS.map(ext => base + ext),
+      ...STYLE_EXTENSIONS.map(ext => path.join(dir, `_${name}${ext}`)),
+      ...STYLE_EXTENSIONS.map(ext => path.join(base, `_index${ext}`)),
+      ...STYLE_EXTENSIONS.map(ext => path.join(base, `index${ext}`)),
+    ];
+  for (const candidate of candidates) {
+    try {
+      if ((await fs.stat(candidate)).isFile()) { return candidate; }
+    } catch {
+      // 尝试下一个候选
+    }
+  }
+  return undefined;
+}
@@ -3,19 +3,59 @@ import * as vscode from 'vscode';
 import * as fs from 'node:fs/promises';
 import { glob } from 'glob';
 import * as csstree from 'css-tree';
-import type { CssNode, Rule, Atrule, Declaration } from 'css-tree';
-import { normalizeCssValue } from './normalize';
+import type { CssNode, Rule, Atrule, Declaration, Block } from 'css-tree';
+import { extractVarReferences, normalizeCssValue, NormalizeOptions, parseVarFunction } from './normalize';
+import { measureDistance, NearestOptions } from './nearest';
+import { pickPreferredHit } from './replace';
+import { deriveConfigUtility, deriveTailwindUtility, TailwindUtility, utilityClassName } from './tailwind';
+import {
+  detectDialect,
+  extractDialectVariables,
+  extractStylusCustomProperties,
+  maskComments,
+  maskDialectVariables,
+} from './dialect';
+import { DesignTokenNaming, parseDesignTokens } from './designTokens';
+import { isTailwindConfig, parseThemeObject, themeExpression, themeFunction } from './themeObject';
+import { resolvePackageTokenFiles } from './packages';
+import { collectImportGraph } from './imports';
+import { DEFAULT_THEME, detectTheme } from './themes';
+import { CACHE_VERSION, CachedFile, hashText, IndexCache, readIndexCache, writeIndexCache } from './cache';
 
 export type TokenHit = {
-  name: string;          // --color-primary
+  name: string;          // --color-primary（JS 主题对象中为 theme.colors.primary / theme(colors.primary)）
   value: string;         // 原始值（如 #1E90FF 或 var(--neutral-4)）
   file: string;          // 文件绝对路径
   offset: number;        // 在文件中的字符偏移（用于跳转到定义）
   selector?: string;     // 来源选择器，如 ':root' / 'html' / '[data-theme=dark]' / 'theme'
   source?: 'theme' | 'root' | 'scoped';
+  media?: string;        // 所在的 @media 条件，如 '(prefers-color-scheme: dark)'
+  theme?: string;        // 所属主题，如 'dark'（[data-theme=dark] / .dark / prefers-color-scheme: dark），默认主题为空
   alias?: string;        // 别名，从 @alias 注释中提取
   pattern?: string;      // 替换模式，从 @pattern 注释中提取（% 代表选中的值）
   referencedVar?: string; // 如果值是 var() 引用，存储被引用的变量名（如 --neutral-4）
+  referencedVars?: string[]; // 值中引用的所有变量，包括组合值与回退值中的（如 calc(var(--spacing) * 4)）
+  fallback?: string;     // 整个值为 var() 时的回退值（如 var(--spacing-xl, 20px) 中的 20px）
+  utility?: TailwindUtility; // @theme 变量或 tailwind.config 中的值推导出的工具类（如 --color-primary -> bg-primary）
+  package?: string;      // 来自 node_modules 中的第三方包时为包说明符（如 open-props），只读
+  entry?: string;        // 通过入口文件的导入图找到时，为引入它的入口文件路径
+};
+
+export type NearestMatch = {
+  hit: TokenHit;
+  distance: number;      // 与选中值的距离，越小越接近
+  delta: string;         // 展示用的差值，如 'ΔE 0.42' / '+1px'
+};
+
+export type ThemeValue = {
+  theme?: string;        // 主题，默认主题为空
+  hit: TokenHit;         // 该主题下的定义
+  value: string;         // 沿 var() 引用链解析后的最终值
+};
+
+export type RelatedHit = {
+  hit: TokenHit;
+  depth: number;         // 0 为直接按值命中，n 为经过 n 层 var() 引用到该值
 };
 
 export type FileInfo = {
@@ -23,29 +63,144 @@ export type FileInfo = {
   comment: string;       // 文件顶部注释
   tokenCount: number;    // 文件中token的数量
   lastModified: number;  // 最后修改时间
+  package?: string;      // 来自第三方包时为包说明符，这类文件只读，不作为新建 token 的目标
+  entry?: string;        // 通过入口文件的导入图找到时，为引入它的入口文件路径
 };
 
 export class TokenIndex {
   private map = new Map<string, TokenHit[]>(); // 归一化值 → 命中列表
+  private fallbacks = new Map<string, TokenHit[]>(); // 归一化回退值 → 命中列表
+  // 二级索引，与 map 同步维护，按名称 / 文件 / 引用 / 别名 / 工具类查找时不再遍历全部 token
+  private byName = new Map<string, TokenHit[]>();          // 变量名 → 命中列表
+  private byFile = new Map<string, TokenHit[]>();          // 文件路径 → 命中列表（增量更新时按文件移除）
+  private byReferencedVar = new Map<string, TokenHit[]>(); // 被引用的变量名 → 引用它的命中列表
+  private byAlias = new Map<string, TokenHit[]>();         // 别名 → 命中列表
+  private byUtilityKey = new Map<string, TokenHit[]>();    // 工具类 key（bg-primary 中的 primary）→ 命中列表
+  private hitKeys = new Set<string>();                     // 文件 + 变量名 + 偏移，用于去重
   private ready = false;
   private mtimes = new Map<string, number>();  // 文件 mtime 用于简单变更检测
   private fileInfos = new Map<string, FileInfo>(); // 文件路径 → 文件信息
+  private packages = new Map<string, string>(); // 第三方包中的文件路径 → 包说明符
+  private entries = new Map<string, string>();  // 导入图中的文件路径 → 入口文件路径
+  private hashes = new Map<string, string>();   // 文件路径 → 内容哈希（写入磁盘缓存用）
+  private cache?: IndexCache;                   // 从磁盘读取的缓存，未变更的文件直接复用其中的解析结果
+  private normalizeOptions: NormalizeOptions = {}; // 归一化配置（根字号、等价单位）
+  private changeEmitter = new vscode.EventEmitter<void>();
+  private queue: Promise<unknown> = Promise.resolve(); // 修改索引的操作依次执行
+
+  /** 索引重建或增量更新后触发，诊断、视图等据此刷新 */
+  readonly onDidChange = this.changeEmitter.event;
+
+  /**
+   * @param cacheFile 磁盘缓存文件路径（通常位于扩展的 storageUri 下），不传时不使用缓存
+   */
+  constructor(private cacheFile?: string) {}
+
+  /**
+   * 切换磁盘缓存文件（cache.enabled 变化时），传 undefined 关闭缓存；之后的 build / validate 按新设置读写
+   */
+  setCacheFile(cacheFile?: string) {
+    this.cacheFile = cacheFile;
+    if (!cacheFile) { this.cache = undefined; }
+  }
 
   isReady() { return this.ready; }
 
-  async build() {
-    this.map.clear();
-    this.mtimes.clear();
-    this.fileInfos.clear();
-    const files = await this.resolveSources();
-    for (const f of files) await this.indexFile(f);
-    this.ready = true;
+  /**
+   * 完整构建索引；mtime 与内容哈希未变的文件默认从磁盘缓存恢复，ignoreCache 为 true 时全部重新解析（并覆盖缓存）
+   */
+  build(options: { ignoreCache?: boolean } = {}): Promise<void> {
+    return this.exclusive(async () => {
+      for (const index of this.hitIndexes()) { index.clear(); }
+      this.hitKeys.clear();
+      this.mtimes.clear();
+      this.fileInfos.clear();
+      this.packages.clear();
+      this.entries.clear();
+      this.hashes.clear();
+      this.normalizeOptions = this.getNormalizeOptions();
+      this.cache = options.ignoreCache ? undefined : await this.loadCache();
+      const files = await this.resolveSources();
+      for (const f of files) await this.indexFile(f);
+      this.ready = true;
+      this.changeEmitter.fire();
+      await this.saveCache();
+    });
+  }
+
+  /**
+   * 从磁盘缓存恢复索引，不读取任何源文件，恢复后立即可用；缓存不存在或配置已变化时返回 false
+   * 恢复的结果可能已经过期，之后应调用 validate() 增量校验
+   */
+  restoreFromCache(): Promise<boolean> {
+    return this.exclusive(async () => {
+      this.normalizeOptions = this.getNormalizeOptions();
+      const cache = await this.loadCache();
+      if (!cache) { return false; }
+      this.cache = cache;
+      for (const [file, cached] of Object.entries(cache.files)) {
+        this.restoreFile(file, cached);
+        if (cached.info.package) { this.packages.set(file, cached.info.package); }
+        if (cached.info.entry) { this.entries.set(file, cached.info.entry); }
+      }
+      this.ready = true;
+      this.changeEmitter.fire();
+      return true;
+    });
+  }
+
+  /**
+   * 增量校验：重新匹配 sources，只重新解析 mtime 与内容哈希都变化了的文件，移除已不存在的文件
+   */
+  validate(): Promise<void> {
+    return this.exclusive(async () => {
+      const previous = new Set(this.mtimes.keys());
+      this.packages.clear();
+      this.entries.clear();
+      const files = await this.resolveSources();
+      for (const f of files) {
+        previous.delete(f);
+        let mtime: number;
+        try {
+          mtime = (await fs.stat(f)).mtimeMs;
+        } catch {
+          continue;
+        }
+        if (this.mtimes.get(f) === mtime) { continue; }
+        await this.removeFileEntries(f);
+        await this.indexFile(f);
+      }
+      for (const f of previous) { await this.removeFileEntries(f); }
+      this.ready = true;
+      this.changeEmitter.fire();
+      await this.saveCache();
+    });
   }
 
   async onFileChange(file: string) {
-    // 简单增量：仅重建该文件的条目
-    await this.removeFileEntries(file);
-    await this.indexFile(file);
+    await this.onFilesChange([file]);
+  }
+
+  /**
+   * 批量增量更新：逐个重建文件的条目（已删除的文件只移除），全部完成后只触发一次变更并写一次缓存
+   */
+  onFilesChange(files: string[]): Promise<void> {
+    return this.exclusive(async () => {
+      for (const file of files) {
+        await this.removeFileEntries(file);
+        await this.indexFile(file);
+      }
+      this.changeEmitter.fire();
+      await this.saveCache();
+    });
+  }
+
+  /**
+   * 按当前索引的归一化配置归一化一个值，查找前应使用它而不是直接调用 normalizeCssValue
+   * 例如：根字号为 16 时 normalize('1rem') -> '16px'
+   */
+  normalize(value: string): string | null {
+    return normalizeCssValue(value, this.normalizeOptions);
   }
 
   findByValue(normalized: string): TokenHit[] {
@@ -53,21 +208,197 @@ export class TokenIndex {
   }
 
   /**
-   * 查找引用了指定变量的所有 token
-   * 例如：findByReferencedVar('--neutral-4') 会找到所有 referencedVar === '--neutral-4' 的 token
+   * 按 Tailwind 工具类名查找 @theme 中推导出该工具类的 token
+   * 例如：findByUtilityClass('bg-primary') 能找到 @theme { --color-primary: ... }
    */
-  findByReferencedVar(varName: string): TokenHit[] {
+  findByUtilityClass(className: string): TokenHit[] {
+    // 前缀本身可能含 -（border-x-primary），依次尝试每个 - 之后的部分作为 key
     const results: TokenHit[] = [];
-    for (const hits of this.map.values()) {
-      for (const hit of hits) {
-        if (hit.referencedVar === varName) {
-          results.push(hit);
-        }
+    for (let i = className.indexOf('-'); i !== -1; i = className.indexOf('-', i + 1)) {
+      const prefix = className.substring(0, i);
+      for (const hit of this.byUtilityKey.get(className.substring(i + 1)) ?? []) {
+        if (utilityClassName(hit.utility!, prefix) === className) { results.push(hit); }
       }
     }
     return results;
   }
 
+  /**
+   * 按 var() 回退值查找 token
+   * 例如：findByFallback('20px') 能找到 --gap: var(--spacing-xl, 20px)
+   */
+  findByFallback(normalized: string): TokenHit[] {
+    return this.fallbacks.get(normalized) ?? [];
+  }
+
+  /**
+   * 查找引用了指定变量的所有 token（整值引用、组合值与回退值中的引用都算）
+   * 例如：findByReferencedVar('--neutral-4') 会找到 var(--neutral-4)、0 0 1px var(--neutral-4) 等
+   */
+  findByReferencedVar(varName: string): TokenHit[] {
+    return this.byReferencedVar.get(varName) ?? [];
+  }
+
+  /**
+   * 按值查找并沿引用图反向展开：值命中的 token，以及直接或间接通过 var() 引用它们的 token
+   * 结果按引用深度从深到浅排序，语义 token（--button-bg）排在色板原子值（--brand-500）前面
+   * 例如：--brand-500: #1e90ff ← --color-primary: var(--brand-500) ← --button-bg: var(--color-primary)
+   *      findRelatedByValue('#1e90ff') -> --button-bg (2), --color-primary (1), --brand-500 (0)
+   */
+  findRelatedByValue(normalized: string): RelatedHit[] {
+    const results: RelatedHit[] = [];
+    const seen = new Set<string>();
+    const visitedNames = new Set<string>(); // 循环引用时每个变量只展开一次
+    let frontier = this.findByValue(normalized);
+
+    for (let depth = 0; frontier.length; depth++) {
+      const next: TokenHit[] = [];
+      for (const hit of frontier) {
+        const key = `${hit.file}-${hit.name}-${hit.offset}`;
+        if (seen.has(key)) { continue; }
+        seen.add(key);
+        results.push({ hit, depth });
+        if (visitedNames.has(hit.name)) { continue; }
+        visitedNames.add(hit.name);
+        // 只沿整值引用展开，组合值（如 0 1px var(--shadow-color)）与该值并不等价
+        next.push(...this.findByReferencedVar(hit.name).filter(h => h.referencedVar === hit.name));
+      }
+      frontier = next;
+    }
+
+    return results.sort((a, b) => b.depth - a.depth);
+  }
+
+  /**
+   * 按变量名查找 token（同名变量可能定义在多个选择器/文件中）
+   */
+  findByName(name: string): TokenHit[] {
+    return this.byName.get(name) ?? [];
+  }
+
+  /**
+   * 按别名查找 token（如 @alias neutral-4 / @rm-prefix 生成的别名）
+   */
+  findByAlias(alias: string): TokenHit[] {
+    return this.byAlias.get(alias) ?? [];
+  }
+
+  /**
+   * 沿 var() 引用链解析 token 的最终值，链路中断或出现循环时停在最后一个可解析的值
+   * 引用的变量优先取同一选择器（与 @media 条件）下的定义，其次取同一主题下的定义，这样 [data-theme=dark] 中的链路会解析到暗色值；
+   * 变量未定义时使用回退值
+   * 例如：--color-neutral-4: var(--neutral-4)
+   *      -> { value: '#edf0f2', chain: ['--color-neutral-4', '--neutral-4'], cyclic: false }
+   */
+  resolve(hit: TokenHit): { value: string; chain: string[]; cyclic: boolean } {
+    const chain = [hit.name];
+    let current = hit;
+    while (current.referencedVar) {
+      if (chain.includes(current.referencedVar)) {
+        return { value: current.value, chain, cyclic: true };
+      }
+      const candidates = this.findByName(current.referencedVar);
+      const next = candidates.find(c => c.selector === current.selector && c.media === current.media)
+        ?? (current.theme ? candidates.find(c => c.theme === current.theme) : undefined)
+        ?? pickPreferredHit(candidates);
+      if (!next) {
+        return { value: current.fallback ?? current.value, chain, cyclic: false };
+      }
+      chain.push(next.name);
+      current = next;
+    }
+    return { value: current.value, chain, cyclic: false };
+  }
+
+  /**
+   * 按变量名分组返回所有 token，同名变量在各个作用域中的定义为一组
+   */
+  getTokenGroups(): TokenHit[][] {
+    return Array.from(this.byName.values());
+  }
+
+  /**
+   * 返回所有已索引的 token
+   */
+  getAllTokens(): TokenHit[] {
+    return Array.from(this.map.values()).flat();
+  }
+
+  /**
+   * 返回索引中出现过的所有非默认主题，如 ['dark', 'high-contrast']
+   */
+  getThemes(): string[] {
+    const themes = new Set<string>();
+    for (const hits of this.byFile.values()) {
+      hits.forEach(h => h.theme && themes.add(h.theme));
+    }
+    return [...themes].sort();
+  }
+
+  /**
+   * 同名变量按主题分组，每个主题取一个定义并解析出最终值，默认主题排在最前
+   * 例如：:root { --bg: #fff } [data-theme=dark] { --bg: var(--gray-900) }
+   *      getThemeValues('--bg') -> [{ value: '#fff' }, { theme: 'dark', value: '#111' }]
+   */
+  getThemeValues(name: string): ThemeValue[] {
+    const groups = new Map<string | undefined, TokenHit[]>();
+    for (const hit of this.findByName(name)) {
+      groups.set(hit.theme, [...groups.get(hit.theme) ?? [], hit]);
+    }
+    return [...groups]
+      .map(([theme, hits]) => {
+        const hit = pickPreferredHit(hits)!;
+        return { theme, hit, value: this.resolve(hit).value };
+      })
+      .sort((a, b) => (a.theme ?? '').localeCompare(b.theme ?? ''));
+  }
+
+  /**
+   * 按值匹配时使用的主题（theme.match 配置），为空时匹配所有主题
+   */
+  getMatchTheme(): string | undefined {
+    const cfg = vscode.workspace.getConfiguration('css-value2design-token');
+    return cfg.get<string>('theme.match') || undefined;
+  }
+
+  /**
+   * 只保留在指定主题下生效的定义：该主题自身的定义，以及该主题没有覆盖的默认主题定义
+   * 例如：theme 为 dark 时，[data-theme=dark] { --bg: #111 } 保留，:root { --bg: #fff } 被覆盖而去掉，
+   *      dark 中没有重新定义的 :root { --radius: 4px } 仍然保留
+   */
+  filterByTheme(hits: TokenHit[], theme = this.getMatchTheme()): TokenHit[] {
+    if (!theme) { return hits; }
+    const target = theme === DEFAULT_THEME ? undefined : theme;
+    return hits.filter(h => h.theme === target
+      || (!h.theme && !this.findByName(h.name).some(other => other.theme === target)));
+  }
+
+  /**
+   * 近似查找：没有完全相同的值时，按颜色 ΔE / 同单位数值距离返回最接近的 token
+   * 例如：findNearest('#1e91ff') 能找到 --color-primary: #1E90FF
+   */
+  findNearest(value: string, options: NearestOptions & { limit?: number } = {}): NearestMatch[] {
+    const norm = this.normalize(value);
+    if (!norm) { return []; }
+
+    const results: NearestMatch[] = [];
+    for (const [key, hits] of this.map) {
+      if (key === norm) { continue; }
+      const d = measureDistance(norm, key, options);
+      if (!d) { continue; }
+      for (const hit of hits) {
+        results.push({ hit, distance: d.distance, delta: d.delta });
+      }
+    }
+    results.sort((a, b) => a.distance - b.distance);
+    return results.slice(0, options.limit ?? 10);
+  }
+
+  /** 文件是否已被索引（包括其中没有 token 的文件） */
+  hasFile(filePath: string): boolean {
+    return this.mtimes.has(filePath);
+  }
+
   getAllIndexedFiles(): string[] {
     return Array.from(this.mtimes.keys());
   }
@@ -76,6 +407,13 @@ export class TokenIndex {
     return Array.from(this.fileInfos.values());
   }
 
+  /**
+   * 返回文件中定义的所有 token
+   */
+  getFileTokens(filePath: string): TokenHit[] {
+    return this.byFile.get(filePath) ?? [];
+  }
+
   getFileInfo(filePath: string): FileInfo | undefined {
     return this.fileInfos.get(filePath);
   }
@@ -93,9 +431,52 @@ export class TokenIndex {
         matches.forEach(m => set.add(m));
       }
     }
+    // 入口文件：沿 @import / @use / @reference 导入图找到所有间接引入的文件（包括包导入）
+    const entryFiles: string[] = [];
+    for (const root of roots) {
+      for (const pat of cfg.get<string[]>('entries') ?? []) {
+        entryFiles.push(...await glob(pat, { cwd: root, absolute: true, nodir: true }));
+      }
+    }
+    for (const imported of await collectImportGraph(entryFiles)) {
+      this.entries.set(imported.file, imported.entry);
+      if (imported.package) { this.packages.set(imported.file, imported.package); }
+      set.add(imported.file);
+    }
+    // 第三方 token 包：从 node_modules 中按 exports 解析
+    for (const specifier of cfg.get<string[]>('packages') ?? []) {
+      for (const file of await resolvePackageTokenFiles(specifier, roots)) {
+        this.packages.set(file, specifier);
+        set.add(file);
+      }
+    }
     return [...set];
   }
 
+  private getNormalizeOptions(): NormalizeOptions {
+    const cfg = vscode.workspace.getConfiguration('css-value2design-token');
+    return {
+      rootFontSize: cfg.get('units.rootFontSize'),
+      pxEquivalents: cfg.get('units.pxEquivalents'),
+    };
+  }
+
+  private getDesignTokenNaming(): DesignTokenNaming {
+    const cfg = vscode.workspace.getConfiguration('css-value2design-token');
+    return {
+      prefix: cfg.get('designTokens.prefix'),
+      separator: cfg.get('designTokens.separator'),
+    };
+  }
+
+  // build / restoreFromCache / validate / onFilesChange 都会修改同一批 map 与 mtimes，排队执行，避免相互交错；
+  // 前一个操作失败不影响后面的操作
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
   private getClassWhitelist(): RegExp[] {
     const cfg = vscode.workspace.getConfiguration('css-value2design-token');
     const patterns: string[] = cfg.get('index.classWhitelist') ?? [];
@@ -103,13 +484,76 @@ export class TokenIndex {
   }
 
   private async removeFileEntries(file: string) {
-    for (const [k, arr] of this.map) {
-      const next = arr.filter(x => x.file !== file);
-      if (next.length) this.map.set(k, next);
-      else this.map.delete(k);
+    const removed = new Set(this.byFile.get(file));
+    const keysOf = (key: (hit: TokenHit) => (string | null | undefined)[]) =>
+      new Set([...removed].flatMap(key));
+    // 先收集受影响的键，每个列表只过滤一次
+    const affected: [Map<string, TokenHit[]>, Set<string | null | undefined>][] = [
+      [this.map, keysOf(h => [this.normalize(h.value)])],
+      [this.fallbacks, keysOf(h => [h.fallback && this.normalize(h.fallback)])],
+      [this.byName, keysOf(h => [h.name])],
+      [this.byReferencedVar, keysOf(h => h.referencedVars ?? [])],
+      [this.byAlias, keysOf(h => [h.alias])],
+      [this.byUtilityKey, keysOf(h => [h.utility?.key])],
+    ];
+    for (const [index, keys] of affected) {
+      for (const key of keys) {
+        if (!key) { continue; }
+        const next = (index.get(key) ?? []).filter(h => !removed.has(h));
+        if (next.length) { index.set(key, next); }
+        else { index.delete(key); }
+      }
     }
+    removed.forEach(h => this.hitKeys.delete(hitKey(h)));
+    this.byFile.delete(file);
     this.mtimes.delete(file);
     this.fileInfos.delete(file);
+    this.hashes.delete(file);
+  }
+
+  // ---------- 磁盘缓存 ----------
+
+  // 影响解析结果的配置与工作区目录的哈希，任一变化都会让整个缓存失效
+  private getConfigHash(): string {
+    const cfg = vscode.workspace.getConfiguration('css-value2design-token');
+    return hashText(JSON.stringify([
+      ['sources', 'entries', 'packages', 'index.classWhitelist', 'designTokens.prefix', 'designTokens.separator']
+        .map(key => cfg.get(key)),
+      this.normalizeOptions,
+      vscode.workspace.workspaceFolders?.map(f => f.uri.fsPath),
+    ]));
+  }
+
+  private async loadCache(): Promise<IndexCache | undefined> {
+    if (!this.cacheFile) { return undefined; }
+    const cache = await readIndexCache(this.cacheFile);
+    return cache?.configHash === this.getConfigHash() ? cache : undefined;
+  }
+
+  private async saveCache() {
+    if (!this.cacheFile) { return; }
+    const files: Record<string, CachedFile> = {};
+    for (const [file, info] of this.fileInfos) {
+      const hash = this.hashes.get(file);
+      if (hash) {
+        files[file] = { mtime: this.mtimes.get(file) ?? info.lastModified, hash, info, hits: this.byFile.get(file) ?? [] };
+      }
+    }
+    this.cache = { version: CACHE_VERSION, configHash: this.getConfigHash(), files };
+    try {
+      await writeIndexCache(this.cacheFile, this.cache);
+    } catch {
+      // 缓存只用于加速启动，写入失败（只读文件系统等）时忽略
+    }
+  }
+
+  private restoreFile(file: string, cached: CachedFile) {
+    this.mtimes.set(file, cached.mtime);
+    this.hashes.set(file, cached.hash);
+    this.fileInfos.set(file, { ...cached.info, lastModified: cached.mtime });
+    for (const hit of cached.hits) {
+      this.addHit({ ...hit });
+    }
   }
 
   private async indexFile(file: string) {
@@ -119,19 +563,104 @@ export class TokenIndex {
       stat = await fs.stat(file);
       const prev = this.mtimes.get(file) || 0;
       if (prev && stat.mtimeMs <= prev) return; // 无变更
+      // 磁盘缓存中 mtime 相同的文件直接恢复，不读取文件
+      const cached = this.cache?.files[file];
+      if (cached && cached.mtime === stat.mtimeMs) {
+        this.restoreFile(file, cached);
+        return;
+      }
       css = await fs.readFile(file, 'utf8');
       this.mtimes.set(file, stat.mtimeMs);
     } catch {
       return;
     }
 
+    // mtime 变了但内容没变（git checkout、touch 等）时同样复用缓存
+    const hash = hashText(css);
+    const cached = this.cache?.files[file];
+    if (cached?.hash === hash) {
+      this.restoreFile(file, { ...cached, mtime: stat.mtimeMs });
+      return;
+    }
+    this.hashes.set(file, hash);
+
     // 提取文件顶部注释
     const comment = this.extractFileComment(css);
     let tokenCount = 0;
 
+    // 获取类白名单配置；第三方包本身就是 token 文件，其中的选择器（如 :where(html) / .dark-theme）全部接受
+    const classWhitelist = this.packages.has(file) ? [/./] : this.getClassWhitelist();
+
+    // W3C DTCG / Style Dictionary JSON：token 路径映射为 CSS 变量名，别名 {a.b} 转为 var(--a-b)
+    if (/\.json$/i.test(file)) {
+      for (const token of parseDesignTokens(css, this.getDesignTokenNaming())) {
+        this.addHit({
+          name: token.name, value: token.value, file, offset: token.offset,
+          source: 'root',
+          ...extractReferences(token.value),
+        });
+        tokenCount++;
+      }
+      this.setFileInfo(file, comment, tokenCount, stat.mtimeMs);
+      return;
+    }
+
+    // JS / TS 主题对象：静态读取对象字面量，tailwind.config 的值以 theme(colors.primary) 引用并推导工具类，
+    // 其他主题文件（styled-components / emotion）的值以 theme.colors.primary 表达式引用
+    if (/\.[cm]?[jt]sx?$/i.test(file)) {
+      const tailwind = isTailwindConfig(file);
+      for (const token of parseThemeObject(css, file)) {
+        this.addHit({
+          name: tailwind ? themeFunction(token.path) : themeExpression(token.path),
+          value: token.value, file, offset: token.offset,
+          source: 'root',
+          utility: tailwind ? deriveConfigUtility(token.path) : undefined,
+        });
+        tokenCount++;
+      }
+      this.setFileInfo(file, comment, tokenCount, stat.mtimeMs);
+      return;
+    }
+
+    // 预处理器方言：先取出顶层方言变量（$primary / @primary），再把 // 注释与变量声明遮盖为等长空白，
+    // 剩下的内容交给 css-tree 容错解析，偏移与行号保持不变
+    const dialect = detectDialect(file);
+    let source = css;
+    if (dialect !== 'css') {
+      const masked = maskComments(css);
+      const variables = extractDialectVariables(masked, dialect);
+      for (const v of variables) {
+        this.addHit({
+          name: v.name, value: v.value, file, offset: v.offset,
+          source: 'root',
+          ...extractReferences(v.value, true),
+        });
+        tokenCount++;
+      }
+      source = maskDialectVariables(masked, variables);
+    }
+
+    // Stylus 缩进语法无法交给 css-tree，按缩进提取自定义属性
+    if (dialect === 'stylus') {
+      for (const prop of extractStylusCustomProperties(source)) {
+        if (!isAllowedSelector(prop.selector, classWhitelist)) { continue; }
+        const selector = prop.selector;
+        this.addHit({
+          name: prop.name, value: prop.value, file, offset: prop.offset,
+          selector,
+          source: selector === ':root' || selector === 'html' ? 'root' : 'scoped',
+          theme: detectTheme(selector),
+          ...extractReferences(prop.value),
+        });
+        tokenCount++;
+      }
+      this.setFileInfo(file, comment, tokenCount, stat.mtimeMs);
+      return;
+    }
+
     let ast: csstree.CssNode;
     try {
-      ast = csstree.parse(css, {
+      ast = csstree.parse(source, {
         positions: true,
         parseCustomProperty: true,
         filename: file,
@@ -141,10 +670,13 @@ export class TokenIndex {
       return;
     }
 
-    // 获取类白名单配置
-    const classWhitelist = this.getClassWhitelist();
-
-    // 深度遍历：单独处理 Atrule(@theme / @theme inline) 与 Rule(选择器规则)
+    // 深度遍历：单独处理 Atrule(@theme / @theme inline / @media) 与 Rule(选择器规则)
+    const selectors: string[] = []; // 当前所在的（展开后的）嵌套选择器栈
+    const medias: string[] = [];    // 当前所在的 @media 条件栈，嵌套时以 and 连接
+    // @theme 中嵌套的规则会被 @theme 与普通规则两个分支各收集一次，只统计实际加入索引的 token
+    const add = (h: TokenHit) => {
+      if (this.addHit(h)) { tokenCount++; }
+    };
     csstree.walk(ast, {
       enter: (node: CssNode) => {
         // 1) @theme {...} 或 @theme inline {...}
@@ -159,54 +691,70 @@ export class TokenIndex {
           at.block.children?.forEach(child => {
             if (child.type === 'Declaration' && isCustomProp(child as Declaration)) {
               const { alias, pattern } = this.extractAliasAndPattern(css, child as Declaration);
-              this.addHitFromDecl(child as Declaration, file, selector, alias, pattern);
-              tokenCount++;
+              if (this.addHitFromDecl(child as Declaration, file, selector, alias, pattern)) { tokenCount++; }
             }
             // 容错：@theme 内部嵌套选择器（极少见）
             if (child.type === 'Rule') {
               const rule = child as Rule;
               const ruleSelector = csstree.generate(rule.prelude).trim();
               if (isAllowedSelector(ruleSelector, classWhitelist)) {
-                collectFromRule(rule, ruleSelector, file, css, (h) => {
-                  this.addHit(h);
-                  tokenCount++;
-                });
+                collectFromBlock(rule.block, ruleSelector, undefined, file, css, add);
               }
             }
           });
         }
 
-        // 2) 普通规则：:root / html / [data-theme=...] / 白名单类 {...}
+        // 2) @media：记录条件（如 prefers-color-scheme: dark），其中的规则按条件归入对应主题；
+        //    嵌套在规则中的 @media（:root { @media (...) { --x: ... } }）直接包含声明，沿用外层选择器
+        if (node.type === 'Atrule' && (node as Atrule).name === 'media') {
+          const at = node as Atrule;
+          medias.push(at.prelude ? csstree.generate(at.prelude).trim() : '');
+          const selector = selectors[selectors.length - 1];
+          if (at.block && selector && isAllowedSelector(selector, classWhitelist)) {
+            collectFromBlock(at.block, selector, medias.join(' and '), file, css, add);
+          }
+        }
+
+        // 3) 普通规则：:root / html / [data-theme=...] / 白名单类 {...}
+        //    SCSS / Less / PostCSS 嵌套规则按父选择器展开（:root { &[data-theme=dark] {...} }）
         if (node.type === 'Rule') {
           const rule = node as Rule;
-          const selector = csstree.generate(rule.prelude).trim();
+          const selector = resolveNestedSelector(csstree.generate(rule.prelude).trim(), selectors[selectors.length - 1]);
+          selectors.push(selector);
           if (isAllowedSelector(selector, classWhitelist)) {
-            collectFromRule(rule, selector, file, css, (h) => {
-              this.addHit(h);
-              tokenCount++;
-            });
+            collectFromBlock(rule.block, selector, medias.join(' and ') || undefined, file, css, add);
           }
         }
       },
+      leave: (node: CssNode) => {
+        if (node.type === 'Rule') { selectors.pop(); }
+        if (node.type === 'Atrule' && (node as Atrule).name === 'media') { medias.pop(); }
+      },
     });
 
-    // 保存文件信息
+    this.setFileInfo(file, comment, tokenCount, stat.mtimeMs);
+  }
+
+  // 保存文件信息
+  private setFileInfo(file: string, comment: string, tokenCount: number, lastModified: number) {
     this.fileInfos.set(file, {
       path: file,
       comment,
       tokenCount,
-      lastModified: stat.mtimeMs
+      lastModified,
+      package: this.packages.get(file),
+      entry: this.entries.get(file),
     });
   }
 
-  private addHitFromDecl(decl: Declaration, file: string, source: string, alias?: string, pattern?: string) {
+  private addHitFromDecl(decl: Declaration, file: string, source: string, alias?: string, pattern?: string): boolean {
     const name = decl.property;                          // 如 --color-primary
     const value = csstree.generate(decl.value).trim();   // 如 #1E90FF 或 var(--neutral-4)
-    const norm = normalizeCssValue(value);               // 归一化
-    if (!norm) return;
+    const norm = this.normalize(value);                  // 归一化
+    if (!norm) return false;
 
     const offset = decl.loc?.start.offset ?? 0;
-    const referencedVar = extractVarReference(value);    // 提取 var() 引用
+    const references = extractReferences(value);         // 提取 var() 引用与回退值
     
     // 判断 source 类型：theme / theme inline 都算 theme
     const sourceType: TokenHit['source'] = 
@@ -219,24 +767,41 @@ export class TokenIndex {
       source: sourceType,
       alias,
       pattern,
-      referencedVar
+      ...references,
+      // 只有 @theme 中的变量会生成 Tailwind 工具类
+      utility: sourceType === 'theme' ? deriveTailwindUtility(name) : undefined,
+      package: this.packages.get(file),
+      entry: this.entries.get(file),
     };
 
-    const arr = this.map.get(norm) ?? [];
-    if (!arr.some(x => x.file === hit.file && x.name === hit.name && x.offset === hit.offset)) {
-      arr.push(hit);
-      this.map.set(norm, arr);
-    }
+    return this.addHit(hit);
   }
 
-  private addHit(hit: TokenHit) {
-    const norm = normalizeCssValue(hit.value);
-    if (!norm) return;
-    const arr = this.map.get(norm) ?? [];
-    if (!arr.some(x => x.file === hit.file && x.name === hit.name && x.offset === hit.offset)) {
-      arr.push(hit);
-      this.map.set(norm, arr);
-    }
+  // 加入索引；值无法归一化或同一位置的声明已经加入过时返回 false
+  private addHit(hit: TokenHit): boolean {
+    const norm = this.normalize(hit.value);
+    if (!norm) return false;
+    const pkg = this.packages.get(hit.file);
+    if (pkg) { hit.package = pkg; }
+    const entry = this.entries.get(hit.file);
+    if (entry) { hit.entry = entry; }
+    const key = hitKey(hit);
+    if (this.hitKeys.has(key)) { return false; }
+    this.hitKeys.add(key);
+
+    addTo(this.map, norm, hit);
+    addTo(this.byName, hit.name, hit);
+    addTo(this.byFile, hit.file, hit);
+    new Set(hit.referencedVars).forEach(v => addTo(this.byReferencedVar, v, hit));
+    if (hit.alias) { addTo(this.byAlias, hit.alias, hit); }
+    if (hit.utility) { addTo(this.byUtilityKey, hit.utility.key, hit); }
+    const fallback = hit.fallback && this.normalize(hit.fallback);
+    if (fallback) { addTo(this.fallbacks, fallback, hit); }
+    return true;
+  }
+
+  private hitIndexes(): Map<string, TokenHit[]>[] {
+    return [this.map, this.fallbacks, this.byName, this.byFile, this.byReferencedVar, this.byAlias, this.byUtilityKey];
   }
 
   private extractFileComment(css: string): string {
@@ -315,7 +880,7 @@ export class TokenIndex {
     // 3. /* @rm-prefix radius [%] */ (自动生成别名，去掉指定前缀，并指定模式)
     if (!decl.loc) return {};
     
-    const lines = css.split('\n');
+    const lines = splitLines(css);
     const declLine = decl.loc.start.line - 1; // 转换为0-based索引
     
     let alias: string | undefined;
@@ -428,6 +993,24 @@ export class TokenIndex {
 
 // ---------- 辅助函数 ----------
 
+// 同一文件的每个声明都要向上查找注释，按行拆分的结果复用，避免大文件退化为 O(n²)
+let lastSplit: { text: string; lines: string[] } | undefined;
+function splitLines(css: string): string[] {
+  if (lastSplit?.text !== css) { lastSplit = { text: css, lines: css.split('\n') }; }
+  return lastSplit.lines;
+}
+
+// 同一个文件中同一位置的同名变量只索引一次
+function hitKey(hit: TokenHit): string {
+  return `${hit.file}\0${hit.name}\0${hit.offset}`;
+}
+
+function addTo(index: Map<string, TokenHit[]>, key: string, hit: TokenHit) {
+  const hits = index.get(key);
+  if (hits) { hits.push(hit); }
+  else { index.set(key, [hit]); }
+}
+
 // 允许被索引的选择器白名单：:root、html、[data-theme="..."]、以及配置的类白名单（包含组合、逗号并列）
 function isAllowedSelector(selector: string, classWhitelist: RegExp[] = []): boolean {
   // 多个选择器并列时全部检查
@@ -435,6 +1018,7 @@ function isAllowedSelector(selector: string, classWhitelist: RegExp[] = []): boo
   return parts.every(s =>
     /^:root(\b|$)/.test(s) ||
     /^html(\b|$)/.test(s) ||
+    /^:where\((:root|html)\)/.test(s) ||        // :where(html)，零优先级的根选择器
     /\[data-theme\b/i.test(s) ||                // [data-theme] / [data-theme="dark"]
     /^html\[data-theme\b/i.test(s) ||           // html[data-theme="dark"]
     isClassAllowed(s, classWhitelist)           // 检查类白名单
@@ -447,39 +1031,73 @@ function isClassAllowed(selector: string, classWhitelist: RegExp[]): boolean {
   return classWhitelist.some(regex => regex.test(selector));
 }
 
+/**
+ * 展开嵌套选择器：有 & 时替换为父选择器，否则作为后代选择器
+ * 例如: (&[data-theme=dark], :root) -> :root[data-theme=dark]
+ *      (.card, [data-theme=dark]) -> [data-theme=dark] .card
+ */
+function resolveNestedSelector(selector: string, parent?: string): string {
+  if (!parent) { return selector; }
+  const parents = parent.split(',').map(s => s.trim());
+  return selector
+    .split(',')
+    .map(s => s.trim())
+    .flatMap(child => parents.map(p => child.includes('&') ? child.replace(/&/g, p) : `${p} ${child}`))
+    .join(', ');
+}
+
 function isCustomProp(decl: Declaration): boolean {
   return !!decl.property && decl.property.startsWith('--');
 }
 
-function collectFromRule(rule: Rule, selector: string, file: string, css: string, add: (h: TokenHit) => void) {
-  rule.block.children?.forEach(n => {
+function collectFromBlock(
+  block: Block,
+  selector: string,
+  media: string | undefined,
+  file: string,
+  css: string,
+  add: (h: TokenHit) => void
+) {
+  block.children?.forEach(n => {
     if (n.type !== 'Declaration') return;
     const decl = n as Declaration;
     if (!isCustomProp(decl)) return;
     const name = decl.property;
     const value = csstree.generate(decl.value).trim();
     const offset = decl.loc?.start.offset ?? 0;
+    // @media 中的 :root 只在条件满足时生效，不作为默认值
     const source: TokenHit['source'] =
-      selector === ':root' || selector === 'html' ? 'root' : 'scoped';
+      !media && (selector === ':root' || selector === 'html') ? 'root' : 'scoped';
     
     // 提取别名和模式
     const { alias, pattern } = extractAliasAndPatternFromDecl(css, decl);
     
-    // 提取 var() 引用
-    const referencedVar = extractVarReference(value);
+    // 提取 var() 引用与回退值
+    const references = extractReferences(value);
     
-    add({ name, value, file, offset, selector, source, alias, pattern, referencedVar });
+    add({
+      name, value, file, offset, selector, source, alias, pattern, ...references,
+      media, theme: detectTheme(selector, media),
+    });
   });
 }
 
 /**
- * 从 var() 函数中提取被引用的变量名
- * 例如: var(--color-primary) -> --color-primary
- *      var(--spacing-xl, 20px) -> --spacing-xl
+ * 从值中提取 var() 引用
+ * 例如: var(--spacing-xl, 20px) -> { referencedVar: '--spacing-xl', referencedVars: ['--spacing-xl'], fallback: '20px' }
+ *      calc(var(--spacing) * 4) -> { referencedVars: ['--spacing'] }
+ *
+ * @param dialect 是否为方言变量的值，是则同时提取 $blue / @blue 引用（如 $primary: $blue）
  */
-function extractVarReference(value: string): string | undefined {
-  const varMatch = value.match(/^var\(\s*(--[a-zA-Z0-9-_]+)(?:\s*,\s*.*)?\s*\)$/i);
-  return varMatch ? varMatch[1] : undefined;
+function extractReferences(value: string, dialect = false): Pick<TokenHit, 'referencedVar' | 'referencedVars' | 'fallback'> {
+  const varFn = parseVarFunction(value);
+  const dialectRefs = dialect ? [...value.matchAll(/[$@][\w-]+/g)].map(m => m[0]) : [];
+  const referencedVars = [...new Set([...extractVarReferences(value), ...dialectRefs])];
+  return {
+    referencedVar: varFn?.name ?? (dialect && /^[$@][\w-]+$/.test(value) ? value : undefined),
+    referencedVars: referencedVars.length ? referencedVars : undefined,
+    fallback: varFn?.fallback,
+  };
 }
 
 /**
@@ -515,7 +1133,7 @@ function extractAliasAndPatternFromDecl(css: string, decl: Declaration): { alias
   // 3. /* @rm-prefix radius [%] */ (自动生成别名，去掉指定前缀，并指定模式)
   if (!decl.loc) return {};
   
-  const lines = css.split('\n');
+  const lines = splitLines(css);
   const declLine = decl.loc.start.line - 1; // 转换为0-based索引
   
   let alias: string | undefined;
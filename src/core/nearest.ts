@@ -0,0 +1,59 @@
+// src/core/nearest.ts
+// 近似匹配：没有完全相同的 token 时，按颜色感知距离 / 同单位数值距离排序候选值
+import { deltaEOK, parseColor } from './color';
+
+export type ValueDistance = {
+  distance: number;      // 用于排序的距离（颜色为 ΔE，长度为数值差的绝对值）
+  delta: string;         // 展示用的差值，如 'ΔE 0.42' / '+1px'
+};
+
+export type NearestOptions = {
+  maxColorDeltaE?: number;   // 颜色最大允许的 ΔE
+  maxLengthRatio?: number;   // 长度最大允许的相对差（0.5 即 ±50%）
+};
+
+export const DEFAULT_MAX_COLOR_DELTA_E = 5;
+export const DEFAULT_MAX_LENGTH_RATIO = 0.5;
+
+/**
+ * 计算两个值之间的距离，类型不同或超出阈值时返回 null
+ * 例如: measureDistance('#1e91ff', '#1e90ff') -> { distance: 0.2, delta: 'ΔE 0.2' }
+ *      measureDistance('15px', '16px') -> { distance: 1, delta: '+1px' }
+ *
+ * @param query 选中的值
+ * @param candidate 候选 token 的（归一化）值
+ */
+export function measureDistance(query: string, candidate: string, options: NearestOptions = {}): ValueDistance | null {
+  const maxDeltaE = options.maxColorDeltaE ?? DEFAULT_MAX_COLOR_DELTA_E;
+  const maxRatio = options.maxLengthRatio ?? DEFAULT_MAX_LENGTH_RATIO;
+
+  const qc = parseColor(query);
+  if (qc) {
+    const cc = parseColor(candidate);
+    if (!cc) { return null; }
+    const d = deltaEOK(qc, cc);
+    return d <= maxDeltaE ? { distance: d, delta: `ΔE ${formatNumber(d, 2)}` } : null;
+  }
+
+  const ql = parseLength(query);
+  if (ql) {
+    const cl = parseLength(candidate);
+    if (!cl || cl.unit !== ql.unit) { return null; }
+    const diff = cl.num - ql.num;
+    const base = Math.max(Math.abs(cl.num), Math.abs(ql.num));
+    if (base && Math.abs(diff) / base > maxRatio) { return null; }
+    const sign = diff > 0 ? '+' : diff < 0 ? '-' : '±';
+    return { distance: Math.abs(diff), delta: `${sign}${formatNumber(Math.abs(diff), 4)}${cl.unit}` };
+  }
+
+  return null;
+}
+
+export function parseLength(value: string): { num: number; unit: string } | null {
+  const m = value.trim().match(/^(-?(?:\d+|\d*\.\d+))([a-z%]+)$/i);
+  return m ? { num: Number(m[1]), unit: m[2].toLowerCase() } : null;
+}
+
+function formatNumber(n: number, digits: number): string {
+  return String(Number(n.toFixed(digits)));
+}
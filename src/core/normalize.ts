@@ -1,29 +1,42 @@
 // src/lib/normalize.ts（简版）
-export function normalizeCssValue(v: string): string | null {
+import { normalizeColor } from "./color";
+
+export type NormalizeOptions = {
+  rootFontSize?: number;     // 1rem 对应的 px，默认 16
+  pxEquivalents?: string[];  // 与 px 等价、统一换算成 px 比较的单位（rem / em / pt），默认 ['rem']
+};
+
+export const DEFAULT_ROOT_FONT_SIZE = 16;
+export const DEFAULT_PX_EQUIVALENTS = ['rem'];
+
+export function normalizeCssValue(v: string, options: NormalizeOptions = {}): string | null {
   if (!v) return null;
   const s = v.trim();
 
-  // var() 函数 -> 提取变量名并归一化
+  // var() 函数 -> 提取变量名并归一化（回退值由 parseVarFunction 单独取出）
   // 例如: var(--color-primary) -> var(--color-primary)
   //      var(--spacing-xl, 20px) -> var(--spacing-xl)
-  const varMatch = s.match(/^var\(\s*(--[a-zA-Z0-9-_]+)(?:\s*,\s*.*)?\s*\)$/i);
-  if (varMatch) {
-    return `var(${varMatch[1]})`;
+  const varFn = parseVarFunction(s);
+  if (varFn) {
+    return `var(${varFn.name})`;
   }
 
-  // hex -> hex6/8 小写
-  const hex = s.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
-  if (hex) return canonicalHex(s);
-
-  // rgb/rgba/hsl/hsla -> 去空格小写
-  if (/^(rgb|rgba|hsl|hsla)\(/i.test(s))
-    return s.replace(/\s+/g, "").toLowerCase();
+  // 颜色（hex / 命名色 / rgb / hsl / hwb / lab / lch / oklab / oklch / color()）
+  // -> 统一换算为 sRGB 的 hex6/8 小写，不同写法的同一颜色得到同一个 key
+  const color = normalizeColor(s);
+  if (color) { return color; }
 
   // 长度
-  if (/^\d+(\.\d+)?(px|rem|em|%|vh|vw|dvh|svh|lvh)$/i.test(s)) {
-    const m = s.match(/^(\d+(?:\.\d+)?)([a-z%]+)$/i)!;
-    const num = Number(m[1]);
-    const unit = m[2].toLowerCase();
+  if (/^(\d+(\.\d+)?|\.\d+)(px|rem|em|pt|%|vh|vw|dvh|svh|lvh)$/i.test(s)) {
+    const m = s.match(/^(\d+(?:\.\d+)?|\.\d+)([a-z%]+)$/i)!;
+    let num = Number(m[1]);
+    let unit = m[2].toLowerCase();
+    // 等价单位统一换算为 px，例如 1rem -> 16px
+    const factor = pxFactor(unit, options);
+    if (factor) {
+      num *= factor;
+      unit = 'px';
+    }
     const n = Number.isInteger(num)
       ? String(num)
       : String(Number(num.toFixed(4)));
@@ -44,11 +57,51 @@ export function normalizeCssValue(v: string): string | null {
   return s;
 }
 
-function canonicalHex(h: string): string {
-  let s = h.toLowerCase();
-  if (s.length === 4 || s.length === 5) {
-    const cs = s.slice(1).split("");
-    s = "#" + cs.map((c) => c + c).join("");
+/**
+ * 解析整个值就是一个 var() 的情况，返回变量名与回退值
+ * 例如: var(--spacing-xl, 20px) -> { name: '--spacing-xl', fallback: '20px' }
+ *      var(--a, var(--b, 1px)) -> { name: '--a', fallback: 'var(--b, 1px)' }
+ *      var(--a) var(--b) -> null（组合值）
+ */
+export function parseVarFunction(value: string): { name: string; fallback?: string } | null {
+  const s = value.trim();
+  const m = s.match(/^var\(\s*(--[\w-]+)\s*(,)?/i);
+  if (!m) { return null; }
+  // 第一个 var( 的右括号必须是整个值的结尾
+  let depth = 0;
+  for (let i = 3; i < s.length; i++) {
+    if (s[i] === '(') { depth++; }
+    if (s[i] === ')' && --depth === 0) {
+      if (i !== s.length - 1) { return null; }
+      const fallback = m[2] ? s.slice(m[0].length, -1).trim() : '';
+      return { name: m[1], fallback: fallback || undefined };
+    }
+  }
+  return null;
+}
+
+/**
+ * 提取值中引用的所有变量（包括 calc() / color-mix() 内部与回退值中的嵌套 var()），按出现顺序去重
+ * 例如: calc(var(--spacing) * 4) -> ['--spacing']
+ *      0 1px 2px var(--shadow-color, var(--black)) -> ['--shadow-color', '--black']
+ */
+export function extractVarReferences(value: string): string[] {
+  const names = [...value.matchAll(/var\(\s*(--[\w-]+)/gi)].map(m => m[1]);
+  return [...new Set(names)];
+}
+
+// 单位换算到 px 的系数，不在 pxEquivalents 中的单位返回 undefined（保持原单位）
+function pxFactor(unit: string, options: NormalizeOptions): number | undefined {
+  const equivalents = options.pxEquivalents ?? DEFAULT_PX_EQUIVALENTS;
+  if (!equivalents.includes(unit)) { return undefined; }
+  const root = options.rootFontSize || DEFAULT_ROOT_FONT_SIZE;
+  switch (unit) {
+    case 'rem':
+    case 'em':
+      return root;
+    case 'pt':
+      return 4 / 3;
+    default:
+      return undefined;
   }
-  return s;
 }
@@ -0,0 +1,144 @@
+// src/core/packages.ts
+// 第三方 token 包：按 package.json 的 exports / style 字段从 node_modules 中解析出 CSS / JSON token 文件
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { glob } from 'glob';
+
+// 解析 exports 时匹配的条件，按优先级排列（样式包通常提供 style 条件）
+const EXPORT_CONDITIONS = ['style', 'css', 'import', 'require', 'default'];
+
+// 可作为 token 源的文件
+const TOKEN_FILE = /\.(css|pcss|postcss|scss|sass|less|styl|json)$/i;
+
+// 包中的非 token JSON
+const IGNORED_FILES = ['package.json', 'package-lock.json', 'tsconfig*.json', '.*.json'];
+
+/**
+ * 拆分包说明符
+ * 例如: @radix-ui/colors -> { name: '@radix-ui/colors' }；tailwindcss/theme.css -> { name: 'tailwindcss', subpath: 'theme.css' }
+ */
+export function parsePackageSpecifier(specifier: string): { name: string; subpath?: string } | undefined {
+  const m = specifier.trim().match(/^((?:@[^/\s]+\/)?[^/@\s][^/\s]*)(?:\/(.+))?$/);
+  return m ? { name: m[1], subpath: m[2] } : undefined;
+}
+
+/**
+ * 按 exports 字段解析子路径，支持条件导出与 ./* 通配，未导出时返回 undefined
+ * 例如: resolvePackageExport({ './theme.css': { style: './theme.css' } }, './theme.css') -> './theme.css'
+ */
+export function resolvePackageExport(exports: unknown, subpath: string): string | undefined {
+  if (typeof exports === 'string' || Array.isArray(exports)) {
+    return subpath === '.' ? resolveTarget(exports) : undefined;
+  }
+  if (!isObject(exports)) { return undefined; }
+
+  const keys = Object.keys(exports);
+  if (!keys.some(k => k.startsWith('.'))) {
+    return subpath === '.' ? resolveTarget(exports) : undefined; // 只有条件、没有子路径的 exports
+  }
+  if (subpath in exports) { return resolveTarget(exports[subpath]); }
+  for (const key of keys) {
+    const star = key.indexOf('*');
+    if (star === -1) { continue; }
+    const [head, tail] = [key.substring(0, star), key.substring(star + 1)];
+    if (subpath.startsWith(head) && subpath.endsWith(tail) && subpath.length >= key.length - 1) {
+      const matched = subpath.substring(head.length, subpath.length - tail.length);
+      return resolveTarget(exports[key])?.replace(/\*/g, matched);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 解析包说明符对应的 token 文件（从各个根目录逐级向上查找 node_modules）
+ * - 带子路径（tailwindcss/theme.css）：按 exports 解析，未声明 exports 时直接按文件路径查找
+ * - 只有包名（open-props）：exports['.'] 或 style 字段指向样式 / JSON 文件时使用它，
+ *   否则使用包根目录与 dist 目录下的所有 CSS / JSON 文件（如 @radix-ui/colors 的 blue.css / blue-dark.css）
+ */
+export async function resolvePackageTokenFiles(specifier: string, roots: string[]): Promise<string[]> {
+  const parsed = parsePackageSpecifier(specifier);
+  if (!parsed) { return []; }
+  const dir = await findPackageDir(parsed.name, roots);
+  if (!dir) { return []; }
+
+  const entry = await resolvePackageEntry(dir, parsed.subpath);
+  if (entry || parsed.subpath) { return entry ? [entry] : []; }
+
+  const files = await glob('{,dist/}*.{css,json}', { cwd: dir, absolute: true, nodir: true, ignore: IGNORED_FILES });
+  return files.sort();
+}
+
+/**
+ * 解析样式表中的包导入（@import "tailwindcss" / @use "open-props/style"），从导入文件所在目录逐级向上查找
+ * 例如: resolvePackageImport('tailwindcss', '/p/src') -> '/p/node_modules/tailwindcss/index.css'
+ */
+export async function resolvePackageImport(specifier: string, fromDir: string): Promise<string | undefined> {
+  const parsed = parsePackageSpecifier(specifier);
+  if (!parsed) { return undefined; }
+  const dir = await findPackageDir(parsed.name, [fromDir]);
+  return dir ? resolvePackageEntry(dir, parsed.subpath) : undefined;
+}
+
+// ---------- 辅助函数 ----------
+
+// 包中子路径（或包入口）对应的样式 / JSON 文件：先按 exports，再按 style 字段，未声明 exports 时按文件路径
+async function resolvePackageEntry(dir: string, subpath?: string): Promise<string | undefined> {
+  let pkg: Record<string, unknown> = {};
+  try {
+    pkg = JSON.parse(await fs.readFile(path.join(dir, 'package.json'), 'utf8'));
+  } catch {
+    // package.json 损坏时按无 exports 处理
+  }
+
+  const exported = pkg.exports !== undefined ? resolvePackageExport(pkg.exports, subpath ? `./${subpath}` : '.') : undefined;
+  const candidates = subpath
+    ? [exported ?? (pkg.exports === undefined ? subpath : undefined)]
+    : [exported, typeof pkg.style === 'string' ? pkg.style : undefined];
+  for (const target of candidates) {
+    if (target && TOKEN_FILE.test(target) && await isFile(path.join(dir, target))) {
+      return path.join(dir, target);
+    }
+  }
+  return undefined;
+}
+
+function resolveTarget(target: unknown): string | undefined {
+  if (typeof target === 'string') { return target; }
+  if (Array.isArray(target)) {
+    for (const t of target) {
+      const resolved = resolveTarget(t);
+      if (resolved) { return resolved; }
+    }
+    return undefined;
+  }
+  if (!isObject(target)) { return undefined; } // null 表示该子路径不导出
+  // 按条件优先级而不是键的顺序：{ import: './index.mjs', style: './index.css' } 取 style
+  for (const condition of EXPORT_CONDITIONS) {
+    const resolved = condition in target ? resolveTarget(target[condition]) : undefined;
+    if (resolved) { return resolved; }
+  }
+  return undefined;
+}
+
+async function findPackageDir(name: string, roots: string[]): Promise<string | undefined> {
+  for (const root of roots) {
+    for (let dir = root; ; dir = path.dirname(dir)) {
+      const candidate = path.join(dir, 'node_modules', name);
+      if (await isFile(path.join(candidate, 'package.json'))) { return candidate; }
+      if (path.dirname(dir) === dir) { break; }
+    }
+  }
+  return undefined;
+}
+
+async function isFile(file: string): Promise<boolean> {
+  try {
+    return (await fs.stat(file)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,98 @@
+// src/core/palette.ts
+// 调色板：把 token 按 颜色 / 间距 / 圆角 / 阴影 / 字体 分区，颜色按色阶分组，间距与圆角按数值排序
+import { categoryOfToken } from './category';
+import { normalizeColor } from './color';
+
+export type PaletteSection = 'color' | 'spacing' | 'radius' | 'shadow' | 'typography' | 'other';
+
+export const PALETTE_SECTIONS: PaletteSection[] = ['color', 'spacing', 'radius', 'shadow', 'typography', 'other'];
+
+export type PaletteEntry = {
+  name: string;          // --color-blue-500
+  value: string;         // 沿 var() 引用链解析后的最终值
+};
+
+export type PaletteToken<T extends PaletteEntry = PaletteEntry> = {
+  entry: T;
+  color?: string;        // 颜色的归一化值（#rrggbb / #rrggbbaa）
+  px?: number;           // 长度换算成的 px，用于标尺与排序
+  property?: string;     // 字体 token 预览时使用的 CSS 属性，如 font-size / font-family
+};
+
+export type PaletteGroup<T extends PaletteEntry = PaletteEntry> = {
+  section: PaletteSection;
+  name: string;          // 分组名，颜色为去掉色阶后的变量名（color-blue），其他分区为空
+  tokens: PaletteToken<T>[];
+};
+
+// 字体相关的变量名：--font-sans / --text-sm / --leading-tight / --tracking-wide / --font-weight-bold
+const TYPOGRAPHY_NAME = /(^|[-_.$@])(font|text|leading|tracking|line-height|letter-spacing|typography)([-_.]|$)/i;
+
+// 色阶 / 尺寸后缀：500 / 50 / xs / 2xl / DEFAULT
+const SCALE_SUFFIX = /^(\d+(\.\d+)?|[2-9]?x[sl]|sm|md|lg|base|default|light|dark|lighter|darker)$/i;
+
+/**
+ * 把 token 分到各个分区，颜色按色阶分组（--blue-50 ... --blue-900 为一组），间距与圆角按 px 从小到大排序
+ * 结果按 PALETTE_SECTIONS 的顺序排列，同一分区内保持分组首次出现的顺序
+ *
+ * @param toPx 把长度值换算成 px（通常为按根字号归一化后解析数值），无法换算时返回 undefined
+ */
+export function buildPalette<T extends PaletteEntry>(
+  entries: T[],
+  toPx: (value: string) => number | undefined
+): PaletteGroup<T>[] {
+  const groups = new Map<string, PaletteGroup<T>>();
+  for (const entry of entries) {
+    const token = classifyToken(entry, toPx);
+    const section = sectionOf(entry, token);
+    const name = section === 'color' ? colorGroupName(entry.name) : '';
+    const key = `${section}\0${name}`;
+    const group = groups.get(key) ?? { section, name, tokens: [] };
+    group.tokens.push(token);
+    groups.set(key, group);
+  }
+  for (const group of groups.values()) {
+    if (group.section === 'spacing' || group.section === 'radius') {
+      group.tokens.sort((a, b) => (a.px ?? 0) - (b.px ?? 0));
+    }
+  }
+  return [...groups.values()].sort((a, b) => PALETTE_SECTIONS.indexOf(a.section) - PALETTE_SECTIONS.indexOf(b.section));
+}
+
+/**
+ * 颜色的分组名：去掉前缀符号与末尾的色阶
+ * 例如: --color-blue-500 -> color-blue；$brand-light -> brand；theme.colors.gray[100] -> colors.gray
+ */
+export function colorGroupName(name: string): string {
+  const parts = name.replace(/^(--|[$@]|theme\.)/, '').replace(/\[['"]?([^\]'"]+)['"]?\]/g, '.$1').split(/([-_.])/);
+  // parts 为 [段, 分隔符, 段, ...]，末尾是色阶时连同前面的分隔符一起去掉
+  if (parts.length > 2 && SCALE_SUFFIX.test(parts[parts.length - 1])) { parts.splice(-2); }
+  return parts.join('');
+}
+
+// ---------- 辅助函数 ----------
+
+function classifyToken<T extends PaletteEntry>(entry: T, toPx: (value: string) => number | undefined): PaletteToken<T> {
+  const color = normalizeColor(entry.value) ?? undefined;
+  const px = color ? undefined : toPx(entry.value);
+  return { entry, color, px, property: typographyProperty(entry.name, entry.value, px) };
+}
+
+function sectionOf(entry: PaletteEntry, token: PaletteToken): PaletteSection {
+  if (token.property) { return 'typography'; }
+  if (token.color) { return 'color'; }
+  const category = categoryOfToken(entry.name, entry.value);
+  if (category === 'shadow' || category === 'radius') { return category; }
+  if (category === 'spacing' && token.px !== undefined) { return 'spacing'; }
+  return 'other';
+}
+
+// 字体 token 的预览属性，不是字体 token 时返回 undefined
+function typographyProperty(name: string, value: string, px: number | undefined): string | undefined {
+  if (!TYPOGRAPHY_NAME.test(name) || normalizeColor(value)) { return undefined; }
+  if (/leading|line-height/i.test(name)) { return 'line-height'; }
+  if (/tracking|letter-spacing/i.test(name)) { return 'letter-spacing'; }
+  if (/weight/i.test(name) || /^[1-9]00$/.test(value.trim())) { return 'font-weight'; }
+  if (px !== undefined) { return 'font-size'; }
+  return /[a-z]/i.test(value) ? 'font-family' : undefined;
+}
@@ -1,12 +1,217 @@
+import * as vscode from 'vscode';
+import type { TokenHit } from './indexer';
+import { DEFAULT_CLASS_HELPERS, isInClassList } from './classContext';
+import { isTokenUsableIn } from './dialect';
+import { ArbitraryUtility, formatUtility, parseArbitraryUtility, utilityClassName } from './tailwind';
+
 export function replaceWithVar(varName: string): string {
   const input = (varName || '').trim();
 
   // 已经是 var(...) 的情况，直接返回，避免二次包裹
   if (/^var\(/i.test(input)) return input;
 
+  // 预处理器变量（$primary / @primary）按方言自身的语法直接使用变量名
+  if (/^[$@][\w-]+$/.test(input)) { return input; }
+
+  // 主题对象 token（theme(colors.primary) / theme.colors.primary）直接使用引用表达式
+  if (/^theme[.([]/.test(input)) { return input; }
+
   // 提取 token 名，容忍传入 "var(--xxx)"、"--xxx" 或 "xxx"
   const m = input.match(/--[a-z0-9\-_]+/i);
   const token = m ? m[0] : (input.startsWith('--') ? input : `--${input}`);
 
   return `var(${token})`;
 }
+
+const SOURCE_RANK: Record<NonNullable<TokenHit['source']>, number> = { theme: 0, root: 1, scoped: 2 };
+
+/**
+ * 多个 token 命中同一个值时，选出默认用于替换的那个：@theme > :root/html > 其他作用域
+ */
+export function pickPreferredHit(hits: TokenHit[]): TokenHit | undefined {
+  return [...hits].sort((a, b) =>
+    SOURCE_RANK[a.source ?? 'scoped'] - SOURCE_RANK[b.source ?? 'scoped']
+  )[0];
+}
+
+/**
+ * 计算用某个 token 替换选中值时的范围与文本（与 Find Design Token 回车行为一致）
+ * - 选中值位于 Tailwind 任意值中（hover:bg-[#1e90ff]/50）且 token 推导出了对应工具类或有别名：
+ *   整个工具类改写为 hover:bg-primary/50，保留变体、! 与透明度修饰
+ * - 有别名：按 pattern 扩展范围后替换为别名
+ * - 无别名或 forceVar：替换为 var(--xxx)；JS 主题对象 token 替换为 theme.colors.primary 表达式
+ */
+export function buildTokenReplacement(
+  document: vscode.TextDocument,
+  range: vscode.Range,
+  hit: TokenHit,
+  forceVar = false
+): { range: vscode.Range; text: string } {
+  const context = forceVar ? undefined : getUtilityContext(document, range);
+  if (context) {
+    const { utility } = context;
+    const className = (hit.utility && utilityClassName(hit.utility, utility.prefix))
+      ?? (hit.alias && (!hit.pattern || hit.pattern === '[%]') ? `${utility.prefix}-${hit.alias}` : undefined);
+    if (className) {
+      return { range: context.range, text: formatUtility(utility, className) };
+    }
+  }
+  if (hit.alias && !forceVar) {
+    return {
+      range: getExpandedRangeByPattern(document, range, hit.pattern),
+      text: hit.alias,
+    };
+  }
+  if (/^theme[.[]/.test(hit.name)) {
+    return buildThemeExpressionReplacement(document, range, hit.name);
+  }
+  return { range, text: replaceWithVar(hit.name) };
+}
+
+/**
+ * token 能否替换某个位置的值
+ * - 类名中的任意值（inUtility）：推导出了工具类、有别名，或是能写成 bg-[var(--x)] 的自定义属性；
+ *   JS 主题对象与预处理器变量会生成无效的 bg-[theme.colors.primary] / bg-[$primary]
+ * - 其他位置：按 isTokenUsableIn 判断
+ */
+export function isTokenReplaceableIn(hit: TokenHit, fileName: string, inUtility: boolean): boolean {
+  if (inUtility) { return !!hit.utility || !!hit.alias || hit.name.startsWith('--'); }
+  return isTokenUsableIn(hit.name, fileName);
+}
+
+/**
+ * JS 主题对象 token 的替换方式取决于值所在的位置
+ * - style 对象中的字符串：{ color: '#1e90ff' } -> { color: theme.colors.primary }（连同引号一起替换）
+ * - css`...` / styled.x`...` 模板：color: #1e90ff -> color: ${({ theme }) => theme.colors.primary}
+ */
+function buildThemeExpressionReplacement(
+  document: vscode.TextDocument,
+  range: vscode.Range,
+  expression: string
+): { range: vscode.Range; text: string } {
+  const lineText = document.lineAt(range.start.line).text;
+  const before = lineText[range.start.character - 1];
+  const after = range.start.line === range.end.line ? lineText[range.end.character] : undefined;
+  if ((before === '"' || before === "'") && after === before) {
+    const line = range.start.line;
+    return { range: new vscode.Range(line, range.start.character - 1, line, range.end.character + 1), text: expression };
+  }
+  const preceding = document.getText(new vscode.Range(new vscode.Position(0, 0), range.start));
+  const inTemplate = (preceding.match(/(?<!\\)`/g)?.length ?? 0) % 2 === 1;
+  return { range, text: inTemplate ? `\${({ theme }) => ${expression}}` : expression };
+}
+
+/**
+ * 参数被视为类名的函数 / 模板标签（classHelpers 配置）
+ */
+export function getClassHelpers(): string[] {
+  return vscode.workspace.getConfiguration('css-value2design-token').get<string[]>('classHelpers') ?? DEFAULT_CLASS_HELPERS;
+}
+
+/**
+ * 找出光标所在的 Tailwind 任意值工具类（class 属性、@apply、cn() / clsx() / cva() 参数、tw`...` 中的类名）
+ * 例如: class="p-4 hover:bg-[#1E90FF]/50" 中光标位于 #1E90FF
+ *      -> { utility: 解析结果, range: hover:bg-[#1E90FF]/50, valueRange: #1E90FF }
+ */
+export function getUtilityContext(
+  document: vscode.TextDocument,
+  range: vscode.Range
+): { utility: ArbitraryUtility; range: vscode.Range; valueRange: vscode.Range } | undefined {
+  if (range.start.line !== range.end.line) { return undefined; }
+  if (!isInClassList(document.getText(), document.offsetAt(range.start), getClassHelpers())) { return undefined; }
+  const lineText = document.lineAt(range.start.line).text;
+  const start = lineText.substring(0, range.start.character).search(/[^\s"'`{}]*$/);
+  const rest = lineText.substring(range.end.character).search(/[\s"'`{}]|$/);
+  const end = range.end.character + rest;
+  const utility = parseArbitraryUtility(lineText.substring(start, end));
+  if (!utility) { return undefined; }
+
+  // 选中的内容必须落在方括号内
+  const valueStart = start + utility.variants.length + (utility.important === 'leading' ? 1 : 0) + utility.prefix.length + 2;
+  const valueEnd = valueStart + utility.value.length;
+  if (range.start.character < valueStart || range.end.character > valueEnd) { return undefined; }
+
+  const line = range.start.line;
+  return {
+    utility,
+    range: new vscode.Range(line, start, line, end),
+    valueRange: new vscode.Range(line, valueStart, line, valueEnd),
+  };
+}
+
+/**
+ * 根据 pattern 扩展替换范围
+ * pattern 中 % 代表选中的值
+ * 
+ * 示例：
+ * - pattern: [%]  →  text-[20px] 中选中 20px，扩展为 [20px]
+ * - pattern: var(%%)  →  color: var(#1E90FF) 中选中 #1E90FF，扩展为 var(#1E90FF)
+ * - 无 pattern  →  不扩展，只替换选中的值
+ */
+export function getExpandedRangeByPattern(
+  document: vscode.TextDocument,
+  originalRange: vscode.Range,
+  pattern?: string
+): vscode.Range {
+  // 如果没有 pattern，返回原始范围
+  if (!pattern) {
+    return originalRange;
+  }
+  
+  const line = document.lineAt(originalRange.start.line);
+  const lineText = line.text;
+  const selectedText = document.getText(originalRange);
+  
+  // 将 pattern 转换为正则表达式
+  // % 代表选中的值，需要转义其他特殊字符
+  const escapedPattern = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')  // 转义特殊字符
+    .replace(/\\%/g, '.*?');  // % 替换为非贪婪匹配
+  
+  // 构建正则表达式，匹配包含选中值的完整模式
+  const regex = new RegExp(escapedPattern.replace('.*?', escapeRegExp(selectedText)));
+  
+  // 在当前行中查找匹配
+  const startChar = originalRange.start.character;
+  const endChar = originalRange.end.character;
+  
+  // 向前查找：从选中位置开始，尝试找到模式的起始位置
+  const beforeText = lineText.substring(0, startChar);
+  const afterText = lineText.substring(endChar);
+  
+  // 根据 pattern 计算前后需要包含的字符数
+  const beforePattern = pattern.split('%')[0];
+  const afterPattern = pattern.split('%').slice(1).join('%');
+  
+  let newStart = startChar;
+  let newEnd = endChar;
+  
+  // 检查前面是否匹配
+  if (beforePattern && beforeText.endsWith(beforePattern)) {
+    newStart = startChar - beforePattern.length;
+  }
+  
+  // 检查后面是否匹配
+  if (afterPattern && afterText.startsWith(afterPattern)) {
+    newEnd = endChar + afterPattern.length;
+  }
+  
+  // 只有当找到完整的模式时才扩展范围
+  if (newStart < startChar || newEnd > endChar) {
+    return new vscode.Range(
+      originalRange.start.line,
+      newStart,
+      originalRange.end.line,
+      newEnd
+    );
+  }
+  
+  return originalRange;
+}
+
+/**
+ * 转义正则表达式特殊字符
+ */
+export function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
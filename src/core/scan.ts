@@ -0,0 +1,166 @@
+// src/core/scan.ts
+// 扫描文件中的 CSS 声明值（CSS / SCSS / Less / Vue / Svelte / HTML / JSX / TSX），用于批量替换与诊断
+import { detectValueCategory, isColorValue, isLengthValue } from './category';
+import { isTokenUsableIn, maskComments } from './dialect';
+import type { TokenHit, TokenIndex } from './indexer';
+
+export type RawValueMatch = {
+  offset: number;        // 值在文件中的字符偏移
+  length: number;        // 值的长度
+  value: string;         // 原始值，如 #1E90FF / 16px / 1px solid #ddd
+  property: string;      // 所在属性，如 color / padding / backgroundColor
+};
+
+// 扩展名 → 扫描方式
+const SCANNERS: Record<string, (text: string) => RawValueMatch[]> = {
+  css: scanCss,
+  pcss: scanCss,
+  postcss: scanCss,
+  scss: scanCss,
+  less: scanCss,
+  html: scanMarkup,
+  htm: scanMarkup,
+  vue: scanMarkup,
+  svelte: scanMarkup,
+  jsx: scanScript,
+  tsx: scanScript,
+};
+
+// style 对象中被视为 CSS 属性的键名（camelCase），避免把 { label: 'red' } 之类的普通字段当作样式
+const STYLE_PROP = /color|background|border|outline|shadow|radius|padding|margin|gap|width|height|size|top|left|right|bottom|inset|fill|stroke|font|spacing|indent/i;
+
+export type TokenMatch = {
+  offset: number;        // 原始值在文件中的字符偏移
+  length: number;
+  value: string;         // 原始值，如 #1E90FF
+  property: string;
+  hits: TokenHit[];      // 值完全匹配的 token
+};
+
+export const SCANNABLE_EXTENSIONS = Object.keys(SCANNERS);
+
+export function isScannableFile(fileName: string): boolean {
+  return !!SCANNERS[getExtension(fileName)];
+}
+
+/**
+ * 按文件类型扫描出所有声明值
+ * - CSS 类文件：整个文件
+ * - HTML / Vue / Svelte：<style> 块与 style="..." 属性
+ * - JSX / TSX：style 对象中的字符串值，以及 css`...` / styled.x`...` 模板字符串
+ * 自定义属性（--x: ...）与预处理器变量（$x / @x）是 token 定义本身，不会被扫描
+ */
+export function scanDeclarationValues(text: string, fileName: string): RawValueMatch[] {
+  const scanner = SCANNERS[getExtension(fileName)];
+  return scanner ? scanner(text) : [];
+}
+
+/**
+ * 找出文件中所有能被 token 替换的原始值：颜色 / 长度 / 阴影整值命中优先，否则逐个匹配值中的颜色/长度片段
+ * 例如: border: 1px solid #1E90FF -> #1E90FF 命中 --color-primary
+ */
+export function findTokenMatches(index: TokenIndex, text: string, fileName: string): TokenMatch[] {
+  const results: TokenMatch[] = [];
+
+  const match = (value: string, offset: number, property: string) => {
+    const norm = index.normalize(value);
+    if (!norm || norm.startsWith('var(')) { return false; }
+    // 方言变量（$x / @x）只用于对应的预处理器文件；配置了 theme.match 时只匹配该主题下生效的定义
+    const hits = index.filterByTheme(index.findByValue(norm).filter(h => isTokenUsableIn(h.name, fileName)));
+    if (!hits.length) { return false; }
+    results.push({ offset, length: value.length, value, property, hits });
+    return true;
+  };
+
+  for (const decl of scanDeclarationValues(text, fileName)) {
+    // 整值只按颜色 / 长度 / 阴影匹配，z-index: 1、font-weight: 400、opacity: 0.5 即使有同值 token 也不替换
+    if (detectValueCategory(decl.value) !== 'other' && match(decl.value, decl.offset, decl.property)) { continue; }
+    for (const part of splitValueComponents(decl.value)) {
+      match(part.value, decl.offset + part.offset, decl.property);
+    }
+  }
+  return results;
+}
+
+/**
+ * 拆出值中的颜色与长度片段（跳过 var() / url() / calc() 等函数内部），用于整值未命中时逐个匹配
+ * 例如: '1px solid #ddd' -> [{ offset: 0, value: '1px' }, { offset: 10, value: '#ddd' }]
+ */
+export function splitValueComponents(value: string): { offset: number; value: string }[] {
+  const results: { offset: number; value: string }[] = [];
+  const re = /([a-z-]+)\([^()]*(?:\([^()]*\)[^()]*)*\)|#[0-9a-f]{3,8}\b|-?(?:\d*\.)?\d+[a-z%]*|[a-z]+/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(value))) {
+    const part = m[0];
+    if (m[1] && !isColorValue(part)) { continue; } // 非颜色函数整体跳过
+    if (isColorValue(part) || isLengthValue(part)) {
+      results.push({ offset: m.index, value: part });
+    }
+  }
+  return results;
+}
+
+// ---------- 各文件类型 ----------
+
+function scanCss(text: string, base = 0): RawValueMatch[] {
+  const masked = maskComments(text);
+  const results: RawValueMatch[] = [];
+  // 属性名前必须是 { ; 或行首，避免把选择器（a:hover）当作声明
+  const re = /(^|[{;])\s*([a-zA-Z][\w-]*)\s*:\s*([^;{}]*?[^;{}\s])(?=\s*(?:;|}|$))/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(masked))) {
+    const value = m[3];
+    const offset = m.index + m[0].length - value.length;
+    results.push({ offset: base + offset, length: value.length, value, property: m[2] });
+  }
+  return results;
+}
+
+function scanMarkup(text: string): RawValueMatch[] {
+  const results: RawValueMatch[] = [];
+
+  const styleBlock = /<style\b[^>]*>([\s\S]*?)<\/style>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = styleBlock.exec(text))) {
+    const start = m.index + m[0].indexOf('>') + 1;
+    results.push(...scanCss(m[1], start));
+  }
+
+  const styleAttr = /\sstyle\s*=\s*(["'])([\s\S]*?)\1/gi;
+  while ((m = styleAttr.exec(text))) {
+    const start = m.index + m[0].indexOf(m[1]) + 1;
+    results.push(...scanCss(m[2], start));
+  }
+
+  return results.sort((a, b) => a.offset - b.offset);
+}
+
+function scanScript(text: string): RawValueMatch[] {
+  const results: RawValueMatch[] = [];
+
+  // style 对象：{ backgroundColor: '#fff', padding: "16px" }
+  const objectProp = /([{,]\s*)([a-zA-Z][\w]*)\s*:\s*(['"])([^'"\n]+)\3/g;
+  let m: RegExpExecArray | null;
+  while ((m = objectProp.exec(text))) {
+    if (!STYLE_PROP.test(m[2])) { continue; }
+    const value = m[4].trim();
+    const offset = m.index + m[0].length - 1 - m[4].length + m[4].indexOf(value);
+    results.push({ offset, length: value.length, value, property: m[2] });
+  }
+
+  // CSS-in-JS 模板字符串：css`...` / styled.div`...` / styled(Button)`...`
+  const template = /\b(?:css|styled(?:\.\w+|\([^)]*\))(?:\.attrs\([^)]*\))?|createGlobalStyle|keyframes)\s*`([^`]*)`/g;
+  while ((m = template.exec(text))) {
+    const start = m.index + m[0].indexOf('`') + 1;
+    results.push(...scanCss(m[1].replace(/\$\{[^}]*\}/g, s => ' '.repeat(s.length)), start));
+  }
+
+  return results.sort((a, b) => a.offset - b.offset);
+}
+
+// ---------- 辅助函数 ----------
+
+function getExtension(fileName: string): string {
+  const m = fileName.match(/\.([a-z0-9]+)$/i);
+  return m ? m[1].toLowerCase() : '';
+}
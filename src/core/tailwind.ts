@@ -0,0 +1,164 @@
+// src/core/tailwind.ts
+// Tailwind v4：@theme 中的变量按命名空间（--color-* / --spacing-* ...）决定生成哪些工具类
+// 例如 --color-primary 会生成 bg-primary / text-primary / border-primary ...，无需 @alias 注释
+
+export type TailwindUtility = {
+  namespace: string;     // 命名空间，如 color / spacing / radius
+  key: string;           // 去掉命名空间后的名字，如 --color-primary -> primary
+  prefixes: string[];    // 可以使用该 token 的工具类前缀，如 bg / text / border
+};
+
+const COLOR_PREFIXES = [
+  'bg', 'text', 'border', 'border-x', 'border-y', 'border-s', 'border-e', 'border-t', 'border-r', 'border-b', 'border-l',
+  'outline', 'ring', 'ring-offset', 'inset-ring', 'divide', 'fill', 'stroke', 'decoration', 'accent', 'caret',
+  'placeholder', 'from', 'via', 'to', 'shadow', 'inset-shadow', 'drop-shadow', 'text-shadow',
+];
+
+const SPACING_PREFIXES = [
+  'p', 'px', 'py', 'ps', 'pe', 'pt', 'pr', 'pb', 'pl',
+  'm', 'mx', 'my', 'ms', 'me', 'mt', 'mr', 'mb', 'ml', '-m', '-mx', '-my', '-mt', '-mr', '-mb', '-ml',
+  'gap', 'gap-x', 'gap-y', 'space-x', 'space-y',
+  'w', 'h', 'size', 'min-w', 'min-h', 'max-w', 'max-h',
+  'inset', 'inset-x', 'inset-y', 'top', 'right', 'bottom', 'left', 'start', 'end',
+  'translate-x', 'translate-y', 'scroll-m', 'scroll-p', 'indent', 'basis',
+];
+
+const RADIUS_PREFIXES = [
+  'rounded', 'rounded-s', 'rounded-e', 'rounded-t', 'rounded-r', 'rounded-b', 'rounded-l',
+  'rounded-ss', 'rounded-se', 'rounded-ee', 'rounded-es', 'rounded-tl', 'rounded-tr', 'rounded-br', 'rounded-bl',
+];
+
+// 命名空间 → 工具类前缀，长的命名空间在前（--font-weight-* 要先于 --font-*）
+const NAMESPACES: [string, string[]][] = [
+  ['inset-shadow', ['inset-shadow']],
+  ['drop-shadow', ['drop-shadow']],
+  ['text-shadow', ['text-shadow']],
+  ['font-weight', ['font']],
+  ['container', ['max-w', 'w', 'min-w', 'basis']],
+  ['color', COLOR_PREFIXES],
+  ['spacing', SPACING_PREFIXES],
+  ['radius', RADIUS_PREFIXES],
+  ['shadow', ['shadow']],
+  ['text', ['text']],
+  ['font', ['font']],
+  ['tracking', ['tracking']],
+  ['leading', ['leading']],
+  ['blur', ['blur', 'backdrop-blur']],
+  ['perspective', ['perspective']],
+  ['aspect', ['aspect']],
+  ['ease', ['ease']],
+  ['animate', ['animate']],
+];
+
+// 所有命名空间的工具类前缀，长的在前（border-x 要先于 border）
+const UTILITY_PREFIXES = [...new Set(NAMESPACES.flatMap(([, prefixes]) => prefixes))].sort((a, b) => b.length - a.length);
+
+/**
+ * 去掉已知的工具类前缀后剩下的部分（用于按别名查找），前缀有多种拆法时都返回，不是工具类时返回空数组
+ * 例如: bg-neutral-4 -> ['neutral-4']；border-x-primary -> ['primary', 'x-primary']；card-4 -> []
+ */
+export function stripUtilityPrefix(className: string): string[] {
+  return UTILITY_PREFIXES
+    .filter(p => className.startsWith(`${p}-`) && className.length > p.length + 1)
+    .map(p => className.slice(p.length + 1));
+}
+
+/**
+ * 推导 @theme 变量对应的 Tailwind 工具类
+ * 例如: --color-primary -> { namespace: 'color', key: 'primary', prefixes: ['bg', 'text', ...] }
+ *      --text-xl--line-height -> undefined（附属属性不会生成工具类）
+ */
+export function deriveTailwindUtility(name: string): TailwindUtility | undefined {
+  if (!name.startsWith('--') || name.indexOf('--', 2) !== -1) { return undefined; }
+  const bare = name.slice(2);
+  for (const [namespace, prefixes] of NAMESPACES) {
+    if (bare.startsWith(`${namespace}-`) && bare.length > namespace.length + 1) {
+      return { namespace, key: bare.slice(namespace.length + 1), prefixes };
+    }
+  }
+  return undefined;
+}
+
+// tailwind.config 中 theme 的键 → @theme 命名空间
+const CONFIG_THEME_KEYS: Record<string, string> = {
+  colors: 'color',
+  spacing: 'spacing',
+  borderRadius: 'radius',
+  boxShadow: 'shadow',
+  dropShadow: 'drop-shadow',
+  fontSize: 'text',
+  fontFamily: 'font',
+  fontWeight: 'font-weight',
+  letterSpacing: 'tracking',
+  lineHeight: 'leading',
+  blur: 'blur',
+  aspectRatio: 'aspect',
+  transitionTimingFunction: 'ease',
+  animation: 'animate',
+};
+
+/**
+ * 推导 tailwind.config 中 theme 值对应的工具类（DEFAULT 键省略）
+ * 例如: ['colors', 'blue', '500'] -> { namespace: 'color', key: 'blue-500', ... }
+ *      ['borderRadius', 'DEFAULT'] -> undefined（对应的是不带后缀的 rounded）
+ */
+export function deriveConfigUtility(path: string[]): TailwindUtility | undefined {
+  const namespace = CONFIG_THEME_KEYS[path[0]];
+  const key = path.slice(1).filter(p => p !== 'DEFAULT').join('-');
+  if (!namespace || !key) { return undefined; }
+  return deriveTailwindUtility(`--${namespace}-${key}`);
+}
+
+/**
+ * 工具类前缀可以使用该 token 时返回完整的工具类名
+ * 例如: utilityClassName(--color-primary 的推导结果, 'bg') -> 'bg-primary'
+ */
+export function utilityClassName(utility: TailwindUtility, prefix: string): string | undefined {
+  return utility.prefixes.includes(prefix) ? `${prefix}-${utility.key}` : undefined;
+}
+
+export type ArbitraryUtility = {
+  variants: string;      // 变体前缀，如 hover:md:（含结尾冒号）
+  important?: 'leading' | 'trailing'; // ! 修饰符写在前面（!bg-[...]）还是后面（bg-[...]!）
+  prefix: string;        // 工具类前缀，如 bg / -mt / border-x
+  value: string;         // 方括号中的原始内容，如 #1E90FF / 0_1px_2px_#000
+  modifier: string;      // 透明度等修饰，如 /50
+};
+
+/**
+ * 解析 Tailwind 任意值工具类
+ * 例如: hover:md:!bg-[#1E90FF]/50
+ *      -> { variants: 'hover:md:', important: 'leading', prefix: 'bg', value: '#1E90FF', modifier: '/50' }
+ */
+export function parseArbitraryUtility(className: string): ArbitraryUtility | undefined {
+  const m = className.match(/^((?:[\w-]+(?:\[[^\]]*\])?:|\[[^\]]*\]:)*)(!?)(-?[a-z][a-z0-9-]*?)-\[([^\]]+)\]((?:\/[\w.%]+|\/\[[^\]]+\])?)(!?)$/i);
+  if (!m) { return undefined; }
+  return {
+    variants: m[1],
+    important: m[2] ? 'leading' : m[6] ? 'trailing' : undefined,
+    prefix: m[3],
+    value: m[4],
+    modifier: m[5],
+  };
+}
+
+/**
+ * 任意值转为 CSS 值：去掉类型提示，下划线还原为空格（\_ 保留为下划线）
+ * 例如: 0_1px_2px_#000 -> 0 1px 2px #000；color:#1e90ff -> #1e90ff
+ */
+export function arbitraryValueToCss(value: string): string {
+  return value
+    .replace(/^[a-z-]+:(?!\/\/)/i, '')
+    .replace(/(?<!\\)_/g, ' ')
+    .replace(/\\_/g, '_');
+}
+
+/**
+ * 用新的工具类主体替换任意值工具类，保留变体、! 与透明度修饰
+ * 例如: formatUtility(hover:bg-[#1E90FF]/50 的解析结果, 'bg-primary') -> 'hover:bg-primary/50'
+ */
+export function formatUtility(utility: ArbitraryUtility, body: string): string {
+  const leading = utility.important === 'leading' ? '!' : '';
+  const trailing = utility.important === 'trailing' ? '!' : '';
+  return `${utility.variants}${leading}${body}${utility.modifier}${trailing}`;
+}
@@ -0,0 +1,219 @@
+// src/core/themeObject.ts
+// 静态读取 JS / TS 主题对象（tailwind.config 的 theme / theme.extend、styled-components / emotion 的 theme.ts），不执行代码
+
+export type ThemeToken = {
+  path: string[];        // 相对 theme 的键路径，如 ['colors', 'blue', '500']
+  value: string;         // 字面量值，如 #1e90ff
+  offset: number;        // 键名在文件中的字符偏移
+};
+
+type LiteralNode =
+  | { kind: 'object'; entries: { key: string; offset: number; value: LiteralNode }[] }
+  | { kind: 'array'; items: LiteralNode[] }
+  | { kind: 'literal'; value: string }
+  | { kind: 'other' };    // 函数调用、变量引用、带插值的模板字符串等无法静态求值的内容
+
+export function isTailwindConfig(fileName: string): boolean {
+  return /(^|[\\/])tailwind\.config\.[cm]?[jt]s$/i.test(fileName);
+}
+
+/**
+ * 提取主题对象中的所有字面量值，嵌套键展开为路径
+ * - tailwind.config.*：theme 与 theme.extend 中的值（extend 覆盖同名键）
+ * - 其他文件：第一个导出 / 声明的对象字面量，如 export const theme = { colors: { primary: '#1e90ff' }, space: [0, 4, 8] }
+ */
+export function parseThemeObject(source: string, fileName: string): ThemeToken[] {
+  const text = maskJsComments(source);
+  const root = findRootObject(text);
+  if (!root) { return []; }
+
+  let theme: LiteralNode | undefined = root;
+  if (isTailwindConfig(fileName)) {
+    theme = getEntry(root, 'theme');
+    if (theme?.kind !== 'object') { return []; }
+    const extend = getEntry(theme, 'extend');
+    const tokens = flatten({ kind: 'object', entries: theme.entries.filter(e => e.key !== 'extend') }, [], false);
+    const extended = extend ? flatten(extend, [], false) : [];
+    const overridden = new Set(extended.map(t => t.path.join('.')));
+    return [...tokens.filter(t => !overridden.has(t.path.join('.'))), ...extended];
+  }
+  return flatten(theme, [], true);
+}
+
+/**
+ * tailwind.config 中的值在 CSS 中通过 theme() 函数引用
+ * 例如: ['colors', 'blue', '500'] -> theme(colors.blue.500)；['spacing', '0.5'] -> theme(spacing[0.5])
+ */
+export function themeFunction(path: string[]): string {
+  return `theme(${path.map((key, i) => key.includes('.') ? `[${key}]` : i ? `.${key}` : key).join('')})`;
+}
+
+/**
+ * 主题路径转为 JS 访问表达式
+ * 例如: ['colors', 'blue', '500'] -> theme.colors.blue[500]；['space', 'x-large'] -> theme.space['x-large']
+ */
+export function themeExpression(path: string[]): string {
+  return path.reduce((expr, key) =>
+    /^[A-Za-z_$][\w$]*$/.test(key) ? `${expr}.${key}`
+      : /^\d+$/.test(key) ? `${expr}[${key}]`
+        : `${expr}['${key}']`,
+  'theme');
+}
+
+// ---------- 对象字面量解析 ----------
+
+// tailwind.config 中的数组是单个值（fontFamily / fontSize 元组），其他主题对象中的数组是按下标取值的刻度（space: [0, 4, 8]）
+function flatten(node: LiteralNode, path: string[], arraysAsScales: boolean): ThemeToken[] {
+  if (node.kind !== 'object') { return []; }
+  const results: ThemeToken[] = [];
+  for (const entry of node.entries) {
+    const value = entry.value;
+    if (value.kind === 'object') {
+      results.push(...flatten(value, [...path, entry.key], arraysAsScales));
+      continue;
+    }
+    if (value.kind === 'array' && arraysAsScales) {
+      value.items.forEach((item, i) => {
+        if (item.kind === 'literal') {
+          results.push({ path: [...path, entry.key, String(i)], value: item.value, offset: entry.offset });
+        }
+      });
+      continue;
+    }
+    const literal = literalValue(value);
+    if (literal !== undefined) {
+      results.push({ path: [...path, entry.key], value: literal, offset: entry.offset });
+    }
+  }
+  return results;
+}
+
+// 数组值：fontFamily ['Inter', 'sans-serif'] -> 'Inter, sans-serif'；fontSize ['1rem', { lineHeight }] -> '1rem'
+function literalValue(node: LiteralNode): string | undefined {
+  if (node.kind === 'literal') { return node.value; }
+  if (node.kind !== 'array' || !node.items.length) { return undefined; }
+  const literals = node.items.filter(i => i.kind === 'literal').map(i => (i as { value: string }).value);
+  if (node.items[1]?.kind === 'object') { return literals[0]; }
+  return literals.length === node.items.length ? literals.join(', ') : undefined;
+}
+
+function getEntry(node: LiteralNode, key: string): LiteralNode | undefined {
+  return node.kind === 'object' ? node.entries.find(e => e.key === key)?.value : undefined;
+}
+
+function findRootObject(text: string): LiteralNode | undefined {
+  const m =
+    text.match(/(?:module\.exports\s*=|export\s+default)\s*(?:[\w$.]+\s*\(\s*)?(?=\{)/) ??
+    text.match(/(?:export\s+)?(?:const|let|var)\s+[\w$]+\s*(?::[^=]+)?=\s*(?:[\w$.]+\s*\(\s*)?(?=\{)/);
+  if (!m) { return undefined; }
+  return new LiteralParser(text, m.index! + m[0].length).parseValue();
+}
+
+class LiteralParser {
+  constructor(private text: string, private pos: number) {}
+
+  parseValue(): LiteralNode {
+    this.skipSpace();
+    const ch = this.text[this.pos];
+    if (ch === '{') { return this.parseObject(); }
+    if (ch === '[') { return this.parseArray(); }
+    if (ch === '"' || ch === "'" || ch === '`') {
+      const value = this.parseString();
+      return value === undefined ? { kind: 'other' } : { kind: 'literal', value };
+    }
+    const num = this.text.substring(this.pos).match(/^-?(?:\d+\.?\d*|\.\d+)(?![\w$])/);
+    if (num) {
+      this.pos += num[0].length;
+      return { kind: 'literal', value: num[0] };
+    }
+    this.skipExpression();
+    return { kind: 'other' };
+  }
+
+  private parseObject(): LiteralNode {
+    const entries: { key: string; offset: number; value: LiteralNode }[] = [];
+    this.pos++; // {
+    while (this.pos < this.text.length) {
+      this.skipSpace();
+      const ch = this.text[this.pos];
+      if (ch === '}') { this.pos++; break; }
+      if (ch === ',') { this.pos++; continue; }
+
+      const offset = this.pos;
+      const key = this.parseKey();
+      this.skipSpace();
+      if (key !== undefined && this.text[this.pos] === ':') {
+        this.pos++;
+        entries.push({ key, offset, value: this.parseValue() });
+      } else {
+        // 展开运算符、简写属性、方法、计算属性名：跳过
+        this.skipExpression();
+      }
+      if (this.pos === offset) { this.pos++; } // 不配对的 ) / ] 等语法错误，保证前进
+    }
+    return { kind: 'object', entries };
+  }
+
+  private parseArray(): LiteralNode {
+    const items: LiteralNode[] = [];
+    this.pos++; // [
+    while (this.pos < this.text.length) {
+      this.skipSpace();
+      const ch = this.text[this.pos];
+      if (ch === ']') { this.pos++; break; }
+      if (ch === ',') { this.pos++; continue; }
+      const start = this.pos;
+      items.push(this.parseValue());
+      if (this.pos === start) { this.pos++; }
+    }
+    return { kind: 'array', items };
+  }
+
+  private parseKey(): string | undefined {
+    const ch = this.text[this.pos];
+    if (ch === '"' || ch === "'") { return this.parseString(); }
+    const m = this.text.substring(this.pos).match(/^[\w$-]+/);
+    if (!m) { return undefined; }
+    this.pos += m[0].length;
+    return m[0];
+  }
+
+  // 返回字符串内容；带 ${} 插值的模板字符串返回 undefined
+  private parseString(): string | undefined {
+    const quote = this.text[this.pos];
+    let value = '';
+    for (this.pos++; this.pos < this.text.length; this.pos++) {
+      const ch = this.text[this.pos];
+      if (ch === '\\') { value += this.text[++this.pos]; continue; }
+      if (ch === quote) { this.pos++; break; }
+      value += ch;
+    }
+    return quote === '`' && value.includes('${') ? undefined : value;
+  }
+
+  // 跳过一个无法求值的表达式，直到同层的 , 或闭合括号
+  private skipExpression() {
+    let depth = 0;
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos];
+      if (ch === '"' || ch === "'" || ch === '`') { this.parseString(); continue; }
+      if ('([{'.includes(ch)) { depth++; }
+      if (')]}'.includes(ch)) {
+        if (depth === 0) { return; }
+        depth--;
+      }
+      if (ch === ',' && depth === 0) { return; }
+      this.pos++;
+    }
+  }
+
+  private skipSpace() {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) { this.pos++; }
+  }
+}
+
+// 注释替换为等长空白（忽略字符串中的 // 与 /*）
+function maskJsComments(source: string): string {
+  return source.replace(/("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`)|\/\*[\s\S]*?\*\/|\/\/[^\n]*/g,
+    (s, str: string | undefined) => str ?? s.replace(/[^\n]/g, ' '));
+}
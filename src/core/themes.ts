@@ -0,0 +1,50 @@
+// src/core/themes.ts
+// 多主题：按选择器与 @media 条件推断 token 定义所属的主题，同名变量在不同主题下的定义归为一组
+
+// theme.match 中表示只匹配默认主题（:root / html / @theme）的值
+export const DEFAULT_THEME = 'default';
+
+// 表示主题的属性选择器：[data-theme=dark] / [data-mode="dark"] / [data-color-scheme='dark']
+const THEME_ATTRIBUTE = /\[data-(?:theme|mode|color-scheme)\s*[~|^$*]?=\s*["']?([\w-]+)/i;
+
+// 表示主题的类名：.theme-dark / .dark-theme / .dark-mode / .dark / .light
+const THEME_CLASS = /\.(?:theme-([\w-]+)|([\w-]+)-(?:theme|mode)|(dark|light))(?![\w-])/i;
+
+/**
+ * 推断 token 定义所属的主题，默认主题返回 undefined
+ * - :root / html / @theme：默认主题
+ * - [data-theme=dark] / .dark / .theme-dark / .dark-theme：dark
+ * - @media (prefers-color-scheme: dark) 中的 :root：dark
+ * - 其他媒体条件（如 (min-width: 768px)）作为独立的条件分组：@media (min-width: 768px)
+ * - 组件作用域（.btn / .card .title / body）不是主题，返回 undefined
+ */
+export function detectTheme(selector: string | undefined, media?: string): string | undefined {
+  const scheme = media?.match(/prefers-color-scheme\s*:\s*([\w-]+)/i)?.[1].toLowerCase();
+  const theme = (selector && themeFromSelector(selector)) ?? scheme;
+  const condition = media && !scheme ? `@media ${media}` : undefined;
+  return [theme, condition].filter(Boolean).join(' ') || undefined;
+}
+
+/**
+ * 主题的展示名称
+ * 例如: themeLabel(undefined) -> '默认'；themeLabel('dark') -> 'dark'
+ */
+export function themeLabel(theme: string | undefined): string {
+  return theme ?? '默认';
+}
+
+// 只有主题属性与主题类名表示主题；并列选择器中有一个是根选择器（:root, .light）时视为默认主题
+function themeFromSelector(selector: string): string | undefined {
+  // :root:not(.dark) 中的类名不表示主题
+  const parts = selector.split(',').map(s => s.trim().replace(/:not\([^)]*\)/g, ''));
+  if (parts.some(isRootSelector)) { return undefined; }
+  const part = parts[0];
+  const attribute = part.match(THEME_ATTRIBUTE);
+  if (attribute) { return attribute[1].toLowerCase(); }
+  const className = part.match(THEME_CLASS);
+  return className ? (className[1] ?? className[2] ?? className[3]).toLowerCase() : undefined;
+}
+
+function isRootSelector(selector: string): boolean {
+  return /^(?::root|html|:where\((?::root|html)\)|theme(?: .*)?)$/.test(selector);
+}
@@ -0,0 +1,84 @@
+// src/core/watcher.ts
+// 监听 token 源文件的创建 / 修改 / 删除（包括 git checkout、代码生成与其他编辑器的改动），防抖后批量增量更新索引
+import * as vscode from 'vscode';
+import type { TokenIndex } from './indexer';
+
+// 合并短时间内的多次变更（如切换分支时大量文件同时变化）
+const DEBOUNCE_MS = 300;
+
+// 已索引文件可能来自导入图或第三方包，不在 sources 中，按扩展名统一监听后再过滤
+const INDEXABLE_FILES = '**/*.{css,pcss,postcss,scss,sass,less,styl,stylus,json,js,cjs,mjs,ts,cts,mts}';
+
+export class TokenIndexWatcher implements vscode.Disposable {
+  private watchers: vscode.FileSystemWatcher[] = [];
+  private pending = new Set<string>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private flushing: Promise<void> = Promise.resolve(); // 上一批变更的更新，下一批排在它之后
+
+  constructor(private index: TokenIndex) {
+    this.watch();
+  }
+
+  /**
+   * 按当前的 sources / entries 配置重新创建监听器（配置变化后调用）
+   */
+  watch() {
+    this.disposeWatchers();
+    const cfg = vscode.workspace.getConfiguration('css-value2design-token');
+    const patterns = [...cfg.get<string[]>('sources') ?? [], ...cfg.get<string[]>('entries') ?? []];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      for (const pattern of patterns) {
+        this.add(new vscode.RelativePattern(folder, pattern), () => true);
+      }
+    }
+    // 导入图与第三方包中的文件：只处理已经被索引的
+    this.add(INDEXABLE_FILES, (file) => this.index.hasFile(file));
+  }
+
+  dispose() {
+    this.disposeWatchers();
+    if (this.timer) { clearTimeout(this.timer); }
+    this.pending.clear();
+  }
+
+  private add(pattern: vscode.GlobPattern, accept: (file: string) => boolean) {
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+    const schedule = (uri: vscode.Uri) => {
+      if (accept(uri.fsPath)) { this.schedule(uri.fsPath); }
+    };
+    watcher.onDidCreate(schedule);
+    watcher.onDidChange(schedule);
+    watcher.onDidDelete(schedule);
+    this.watchers.push(watcher);
+  }
+
+  private schedule(file: string) {
+    this.pending.add(file);
+    if (this.timer) { clearTimeout(this.timer); }
+    this.timer = setTimeout(() => this.flush(), DEBOUNCE_MS);
+  }
+
+  private flush() {
+    this.timer = undefined;
+    const files = [...this.pending];
+    this.pending.clear();
+    // 索引尚未构建（按需构建时）或正在首次构建：构建会重新读取所有文件，不需要增量更新
+    if (!files.length || !this.index.isReady()) { return; }
+    // 一批更新未完成时下一批排队，两次 onFilesChange / validate 不会交错执行；失败不影响后续批次
+    this.flushing = this.flushing.then(() => this.update(files)).catch(() => undefined);
+  }
+
+  private async update(files: string[]) {
+    // 导入图中的文件变化后 @import 可能增删，重新解析导入图（只重新索引变更过的文件）
+    if (files.some(f => this.index.getFileInfo(f)?.entry)) {
+      await this.index.validate();
+      return;
+    }
+    await this.index.onFilesChange(files);
+  }
+
+  private disposeWatchers() {
+    this.watchers.forEach(w => w.dispose());
+    this.watchers = [];
+  }
+}
@@ -1,18 +1,69 @@
 // src/extension.ts（片段）
 import * as vscode from "vscode";
-import { TokenIndex, TokenHit, FileInfo } from "./core/indexer";
-import { normalizeCssValue } from "./core/normalize";
-import { replaceWithVar } from "./core/replace";
+import { TokenIndex, TokenHit, FileInfo, NearestMatch } from "./core/indexer";
+import { buildTokenReplacement, getUtilityContext, isTokenReplaceableIn, replaceWithVar } from "./core/replace";
+import { arbitraryValueToCss } from "./core/tailwind";
+import { detectValueCategory } from "./core/category";
+import {
+  TOKEN_BLOCKS,
+  TokenBlock,
+  canInsertTokenInto,
+  hasTokenBlock,
+  isValidTokenName,
+  planTokenInsertion,
+  suggestTokenNames,
+} from "./core/create";
+import { replaceAllWithTokens } from "./commands/replaceAll";
+import { TokenDiagnostics, TokenQuickFixProvider } from "./providers/diagnostics";
+import { COMPLETION_TRIGGER_CHARACTERS, TokenCompletionProvider } from "./providers/completion";
+import { TokenHoverProvider } from "./providers/hover";
+import { TokenDefinitionProvider, TokenReferenceProvider } from "./providers/definition";
+import { STYLE_DOCUMENT_SELECTOR } from "./providers/languages";
+import { revealTokenHit } from "./providers/lookup";
+import { TokenTreeView } from "./providers/tokenTree";
+import { TokenPalettePanel } from "./providers/palette";
+import { TokenIndexWatcher } from "./core/watcher";
+import { DEFAULT_THEME, themeLabel } from "./core/themes";
 
 let index = new TokenIndex();
+let building: Promise<void> | undefined;
+
+// 变化后需要完整重建索引的配置
+const INDEX_SETTINGS = ["sources", "entries", "packages", "index.classWhitelist", "units", "designTokens"];
 
 export async function activate(ctx: vscode.ExtensionContext) {
-  // 文件变更时尝试增量刷新
+  index = new TokenIndex(getCacheFile(ctx));
+
+  // 文件创建 / 修改 / 删除时防抖后增量刷新；影响索引的配置变化时重新监听并完整重建
+  const watcher = new TokenIndexWatcher(index);
   ctx.subscriptions.push(
-    vscode.workspace.onDidSaveTextDocument((doc) => {
-      if (doc.languageId === "css" || /\.pcss$/i.test(doc.fileName)) {
-        index.onFileChange(doc.fileName);
+    watcher,
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      // 开启 / 关闭缓存后重建一次，开启时立即写入缓存
+      const cacheChanged = e.affectsConfiguration("css-value2design-token.cache.enabled");
+      if (cacheChanged) { index.setCacheFile(getCacheFile(ctx)); }
+      if (!cacheChanged && !INDEX_SETTINGS.some((key) => e.affectsConfiguration(`css-value2design-token.${key}`))) {
+        return;
+      }
+      watcher.watch();
+      if (index.isReady()) { rebuildIndex().catch((error) => reportIndexError("重建", error)); }
+    }),
+    vscode.commands.registerCommand("css-value2design-token.selectMatchTheme", async () => {
+      await ensureIndexReady();
+      await selectMatchTheme();
+    }),
+    vscode.commands.registerCommand("css-value2design-token.rebuildIndex", async () => {
+      // 手动重建用于清除过期或损坏的缓存，所有文件都重新解析
+      try {
+        await rebuildIndex({ ignoreCache: true });
+      } catch (error) {
+        reportIndexError("重建", error);
+        return;
       }
+      const files = index.getAllFileInfos();
+      vscode.window.showInformationMessage(
+        `已重建 token 索引：${files.length} 个文件，${files.reduce((sum, f) => sum + f.tokenCount, 0)} 个 tokens`,
+      );
     }),
   );
 
@@ -25,186 +76,424 @@ export async function activate(ctx: vscode.ExtensionContext) {
 
         const editor = vscode.window.activeTextEditor;
         if (!editor) return;
-        const range = editor.document.getWordRangeAtPosition(
-          editor.selection.active,
-          // 光标点在某个值里面但没有手动选中内容，自动选中整个值
-          /[#\w\-\(\),.%\s]+/,
-        );
+        const { selection } = editor;
+        // class / @apply / cn() 中的 Tailwind 任意值（hover:bg-[#1E90FF]/50）：取方括号内的值
+        const utilityContext = getUtilityContext(editor.document, selection);
+        const range = utilityContext?.valueRange ?? (selection.isEmpty
+          ? editor.document.getWordRangeAtPosition(
+            selection.active,
+            // 光标点在某个值里面但没有手动选中内容，自动选中整个值
+            /[#\w\-\(\),.%\s]+/,
+          )
+          : selection);
         if (!range) return;
 
-        const raw = editor.document.getText(range).trim();
-        const norm = normalizeCssValue(raw);
+        const text = editor.document.getText(range);
+        const raw = (utilityContext ? arbitraryValueToCss(text) : text).trim();
+        const norm = index.normalize(raw);
         if (!norm) {
           vscode.window.showWarningMessage("未识别到可用的 CSS 值");
           return;
         }
 
-        // 1. 直接匹配：查找值匹配的 token
-        const directHits = index.findByValue(norm);
-        
-        // 2. 链式查找：对于找到的每个变量，查找引用它的 token
-        const referencedHits: TokenHit[] = [];
-        for (const hit of directHits) {
-          // 如果这个 token 不是 var() 引用（即它是一个基础定义），查找引用它的 token
-          if (!hit.referencedVar) {
-            const refs = index.findByReferencedVar(hit.name);
-            referencedHits.push(...refs);
-          }
-        }
-        
-        // 3. 合并结果并去重
-        const allHits = [...directHits, ...referencedHits];
-        const uniqueHits = Array.from(
-          new Map(allHits.map(h => [`${h.file}-${h.name}-${h.offset}`, h])).values()
-        );
-        
+        // 1. 按值匹配，并沿引用图找出所有直接或间接引用这些 token 的变量（按引用深度排序）
+        const related = index.findRelatedByValue(norm);
+        const depths = new Map(related.map((r) => [r.hit, r.depth]));
+        // 回退值命中的 token（如 var(--spacing-xl, 20px)）排在最后
+        const fallbackHits = index.findByFallback(norm).filter((h) => !depths.has(h));
+        // 方言变量（$x / @x）只用于对应的预处理器文件；类名中只要能推导出工具类即可使用
+        // 配置了 theme.match 时只保留该主题下生效的定义（选中暗色值时找到暗色值与之相同的 token）
+        const uniqueHits = index.filterByTheme([...related.map((r) => r.hit), ...fallbackHits])
+          .filter((h) => isTokenReplaceableIn(h, editor.document.fileName, !!utilityContext));
+
         if (!uniqueHits.length) {
-          await showNoTokenFoundDialog();
-          return;
-        }
-        
-        const hits = uniqueHits;
-
-        // 创建自定义QuickPick以支持按钮
-        const quickPick = vscode.window.createQuickPick();
-        
-        // 为每个token创建item，并添加按钮（跳转 + var替换）
-        quickPick.items = hits.map((h) => {
-          const buttons: vscode.QuickInputButton[] = [
-            {
-              iconPath: new vscode.ThemeIcon('go-to-file'),
-              tooltip: '跳转到定义'
-            }
-          ];
-          
-          // 如果有别名，添加强制使用 var() 的按钮
-          if (h.alias) {
-            buttons.push({
-              iconPath: new vscode.ThemeIcon('symbol-variable'),
-              tooltip: `使用 var(${h.name}) 替换`
-            });
-          }
-          
-          // 构建 detail 信息
-          let detail = h.value;
-          
-          // 标记是否为引用匹配
-          const isDirectMatch = directHits.some(dh => 
-            dh.file === h.file && dh.name === h.name && dh.offset === h.offset
-          );
-          
-          if (h.referencedVar) {
-            detail += ` → 引用: ${h.referencedVar}`;
-            if (!isDirectMatch) {
-              detail += ' (链式查找)';
-            }
-          }
-          if (h.alias) {
-            detail += ` (回车使用别名: ${h.alias})`;
-            if (h.pattern) {
-              detail += ` [模式: ${h.pattern}]`;
-            }
-          } else {
-            detail += ` (回车使用: var(${h.name}))`;
-          }
-          
-          return {
-            label: h.name,
-            description: vscode.workspace.asRelativePath(h.file),
-            detail,
-            buttons,
-            tokenHit: h
-          } as any;
-        });
-
-        quickPick.placeholder = `匹配到 ${hits.length} 个 Token (回车替换，点击图标跳转)`;
-
-        // 处理选择（回车）- 优先使用别名，没有别名则用 var(--xxx)
-        quickPick.onDidAccept(() => {
-          const selected = quickPick.activeItems[0] as any;
-          if (selected) {
-            quickPick.hide();
-            const tokenHit = selected.tokenHit as TokenHit;
-            
-            // 如果有别名，使用别名替换
-            if (tokenHit.alias) {
-              // 根据 pattern 扩展替换范围
-              const expandedRange = getExpandedRangeByPattern(
-                editor.document, 
-                range, 
-                tokenHit.pattern
-              );
-              editor.edit((edit) =>
-                edit.replace(expandedRange, tokenHit.alias!),
-              );
-            } else {
-              // 没有别名，使用 var(--xxx)
-              editor.edit((edit) =>
-                edit.replace(range, replaceWithVar(selected.label)),
-              );
-            }
-          }
-        });
-
-        // 处理按钮点击
-        quickPick.onDidTriggerItemButton(async (e) => {
-          const item = e.item as any;
-          const buttonIndex = item.buttons.indexOf(e.button);
-          
-          quickPick.hide();
-          
-          // 第一个按钮：跳转到定义
-          if (buttonIndex === 0) {
-            await jumpToTokenDefinition(item.tokenHit);
-          }
-          // 第二个按钮：强制使用 var() 替换（当有别名时）
-          else if (buttonIndex === 1 && item.tokenHit.alias) {
-            editor.edit((edit) =>
-              edit.replace(range, replaceWithVar(item.label)),
+          // 2. 近似查找：颜色按 ΔE、长度按同单位数值距离排序
+          const nearest = findNearestTokens(raw, editor.document.fileName, !!utilityContext);
+          if (nearest.length) {
+            showTokenQuickPick(
+              editor,
+              range,
+              nearest.map((n) => n.hit),
+              new Map(),
+              new Map(nearest.map((n) => [n.hit, n])),
+              raw,
             );
+            return;
           }
-        });
+          await showNoTokenFoundDialog(editor, range, raw);
+          return;
+        }
 
-        quickPick.onDidHide(() => quickPick.dispose());
-        quickPick.show();
+        showTokenQuickPick(editor, range, uniqueHits, depths);
       },
     ),
   );
+
+  ctx.subscriptions.push(
+    vscode.commands.registerCommand(
+      "css-value2design-token.replaceAll",
+      async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        await ensureIndexReady();
+        await replaceAllWithTokens(index, uri, uris);
+      },
+    ),
+  );
+
+  // 硬编码值诊断 + 快速修复
+  ctx.subscriptions.push(
+    new TokenDiagnostics(index),
+    vscode.languages.registerCodeActionsProvider(
+      STYLE_DOCUMENT_SELECTOR,
+      new TokenQuickFixProvider(index),
+      { providedCodeActionKinds: TokenQuickFixProvider.providedCodeActionKinds },
+    ),
+  );
+
+  ctx.subscriptions.push(
+    vscode.languages.registerCompletionItemProvider(
+      STYLE_DOCUMENT_SELECTOR,
+      new TokenCompletionProvider(index),
+      ...COMPLETION_TRIGGER_CHARACTERS,
+    ),
+    vscode.languages.registerHoverProvider(STYLE_DOCUMENT_SELECTOR, new TokenHoverProvider(index)),
+    vscode.languages.registerDefinitionProvider(STYLE_DOCUMENT_SELECTOR, new TokenDefinitionProvider(index)),
+    vscode.languages.registerReferenceProvider(STYLE_DOCUMENT_SELECTOR, new TokenReferenceProvider(index)),
+  );
+
+  // 活动栏中的 token 浏览器与可视化调色板
+  const palette = new TokenPalettePanel(index);
+  ctx.subscriptions.push(
+    new TokenTreeView(index),
+    palette,
+    vscode.commands.registerCommand("css-value2design-token.showPalette", async () => {
+      await ensureIndexReady();
+      palette.show();
+    }),
+  );
+
+  // 有磁盘缓存时先恢复（首次查找无需等待），再在后台按 mtime / 内容哈希增量校验
+  if (await index.restoreFromCache()) {
+    building = validateIndex();
+    return;
+  }
+
+  // 诊断、补全、悬停与跳转依赖索引，启用时在激活后立即构建（构建完成会触发诊断刷新）
+  const cfg = vscode.workspace.getConfiguration("css-value2design-token");
+  if (cfg.get<boolean>("diagnostics.enabled", true) || cfg.get<boolean>("completion.enabled", true)) {
+    ensureIndexReady().catch((error) => reportIndexError("构建", error));
+  }
+}
+
+// token 选择面板中的选项：token 本身，或近似匹配时末尾的"新建 token"
+interface TokenPickItem extends vscode.QuickPickItem {
+  tokenHit?: TokenHit;
+  createToken?: boolean;
+}
+
+/**
+ * 展示 token 选择面板：回车替换（优先别名），点击图标跳转定义或强制使用 var()
+ *
+ * @param depths 每个 token 经过几层 var() 引用命中选中值，0 为直接命中
+ * @param nearest 近似匹配时每个 token 与选中值的差值
+ * @param createValue 近似匹配时的选中值，列表末尾提供为它新建 token 的选项
+ */
+function showTokenQuickPick(
+  editor: vscode.TextEditor,
+  range: vscode.Range,
+  hits: TokenHit[],
+  depths: Map<TokenHit, number>,
+  nearest?: Map<TokenHit, NearestMatch>,
+  createValue?: string,
+) {
+  // 创建自定义QuickPick以支持按钮
+  const quickPick = vscode.window.createQuickPick<TokenPickItem>();
+  
+  // 为每个token创建item，并添加按钮（跳转 + var替换）
+  quickPick.items = hits.map((h): TokenPickItem => {
+    // 回车时实际写入的内容：Tailwind 工具类 / 别名 / var(--xxx)
+    const replacement = buildTokenReplacement(editor.document, range, h);
+    // 主题对象 token 没有 var() 形式
+    const usesVar = replacement.text === replaceWithVar(h.name) || /^theme[.([]/.test(h.name);
+    const buttons: vscode.QuickInputButton[] = [
+      {
+        iconPath: new vscode.ThemeIcon('go-to-file'),
+        tooltip: '跳转到定义'
+      }
+    ];
+    
+    // 如果回车不使用 var()，添加强制使用 var() 的按钮
+    if (!usesVar) {
+      buttons.push({
+        iconPath: new vscode.ThemeIcon('symbol-variable'),
+        tooltip: `使用 var(${h.name}) 替换`
+      });
+    }
+    
+    // 构建 detail 信息
+    const near = nearest?.get(h);
+    let detail = near ? `≈ ${h.value} (${near.delta})` : h.value;
+    
+    // 标记是否为引用匹配
+    const depth = depths.get(h) ?? 0;
+    
+    if (h.referencedVar) {
+      detail += ` → 引用: ${h.referencedVar}`;
+      if (depth > 0) {
+        detail += ` (链式查找 ${depth} 层)`;
+      }
+    }
+    if (h.fallback) {
+      detail += ` (回退值: ${h.fallback})`;
+    }
+    // 同一变量在多个主题下有定义时，列出各主题的最终值：[默认: #ffffff | dark: #111111]
+    const themeValues = index.getThemeValues(h.name);
+    if (themeValues.length > 1) {
+      detail += ` [${themeValues.map((t) => `${themeLabel(t.theme)}: ${t.value}`).join(" | ")}]`;
+    }
+    if (!usesVar && replacement.text === h.alias) {
+      detail += ` (回车使用别名: ${h.alias})`;
+      if (h.pattern) {
+        detail += ` [模式: ${h.pattern}]`;
+      }
+    } else {
+      detail += ` (回车使用: ${replacement.text})`;
+    }
+    
+    return {
+      label: h.name,
+      // 第三方包中的 token 显示包名徽标，而不是 node_modules 中的路径
+      description: h.package ? `$(package) ${h.package}` : vscode.workspace.asRelativePath(h.file),
+      detail,
+      buttons,
+      tokenHit: h
+    };
+  });
+  // 近似结果都不合适时，可以直接为选中值新建 token
+  if (createValue) {
+    quickPick.items = [
+      ...quickPick.items,
+      { label: "", kind: vscode.QuickPickItemKind.Separator },
+      { label: `$(add) 为 ${createValue} 新建 token…`, alwaysShow: true, createToken: true },
+    ];
+  }
+
+  quickPick.placeholder = nearest
+    ? `未找到完全匹配的 Token，以下是 ${hits.length} 个近似结果 (回车替换，点击图标跳转)`
+    : `匹配到 ${hits.length} 个 Token (回车替换，点击图标跳转)`;
+
+  // 处理选择（回车）- 优先使用别名，没有别名则用 var(--xxx)
+  quickPick.onDidAccept(() => {
+    const selected = quickPick.activeItems[0];
+    if (selected?.createToken) {
+      quickPick.hide();
+      createTokenFromSelection(editor, range, createValue!);
+      return;
+    }
+    if (selected?.tokenHit) {
+      quickPick.hide();
+      const tokenHit = selected.tokenHit;
+      
+      // 有别名时根据 pattern 扩展范围并使用别名，没有别名则用 var(--xxx)
+      const replacement = buildTokenReplacement(editor.document, range, tokenHit);
+      editor.edit((edit) =>
+        edit.replace(replacement.range, replacement.text),
+      );
+    }
+  });
+
+  // 处理按钮点击
+  quickPick.onDidTriggerItemButton(async (e) => {
+    const item = e.item;
+    const buttonIndex = item.buttons?.indexOf(e.button) ?? -1;
+    
+    quickPick.hide();
+    
+    // 第一个按钮：跳转到定义
+    if (buttonIndex === 0 && item.tokenHit) {
+      await revealTokenHit(item.tokenHit);
+    }
+    // 第二个按钮：强制使用 var() 替换（回车不使用 var() 时）
+    else if (buttonIndex === 1) {
+      editor.edit((edit) =>
+        edit.replace(range, replaceWithVar(item.label)),
+      );
+    }
+  });
+
+  quickPick.onDidHide(() => quickPick.dispose());
+  quickPick.show();
+}
+
+function findNearestTokens(raw: string, fileName: string, inUtility: boolean): NearestMatch[] {
+  const cfg = vscode.workspace.getConfiguration("css-value2design-token");
+  if (!cfg.get<boolean>("fuzzy.enabled", true)) { return []; }
+  return index.findNearest(raw, {
+    maxColorDeltaE: cfg.get<number>("fuzzy.maxColorDeltaE"),
+    limit: cfg.get<number>("fuzzy.maxResults"),
+  }).filter((n) => isTokenReplaceableIn(n.hit, fileName, inUtility) && index.filterByTheme([n.hit]).length);
+}
+
+/**
+ * 选择按值匹配时使用的主题：所有主题 / 默认主题 / 索引中出现的主题（dark、high-contrast 等），写入 theme.match
+ */
+async function selectMatchTheme() {
+  const current = index.getMatchTheme() ?? "";
+  const items = [
+    { label: "所有主题", description: "任一主题下的值匹配即可", theme: "" },
+    { label: "默认主题", description: ":root / html / @theme", theme: DEFAULT_THEME },
+    ...index.getThemes().map((theme) => ({ label: theme, description: "", theme })),
+  ].map((item) => ({ ...item, label: item.theme === current ? `$(check) ${item.label}` : item.label }));
+
+  const pick = await vscode.window.showQuickPick(items, { placeHolder: "选择按值查找 token 时匹配哪个主题下的值" });
+  if (!pick) { return; }
+  const target = vscode.workspace.workspaceFolders
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global;
+  await vscode.workspace.getConfiguration("css-value2design-token").update("theme.match", pick.theme, target);
 }
 
 async function ensureIndexReady() {
   if (index.isReady()) return;
-  await vscode.window.withProgress(
-    { location: vscode.ProgressLocation.Window, title: "索引 design tokens…" },
-    async () => {
-      await index.build();
-    },
-  );
+  // 多处同时触发（激活时的诊断、命令）时复用同一次构建
+  building ??= buildIndex();
+  await building;
 }
 
-async function jumpToTokenDefinition(tokenHit: TokenHit) {
-  try {
-    const document = await vscode.workspace.openTextDocument(tokenHit.file);
-    const position = document.positionAt(tokenHit.offset);
-    const editor = await vscode.window.showTextDocument(document);
-    editor.selection = new vscode.Selection(position, position);
-    editor.revealRange(new vscode.Range(position, position));
-  } catch (error) {
-    vscode.window.showErrorMessage(`无法打开文件: ${tokenHit.file}`);
-  }
+// 完整重建索引（配置变化、Rebuild Token Index 命令），等待进行中的构建结束后再开始
+async function rebuildIndex(options: { ignoreCache?: boolean } = {}) {
+  await building?.catch(() => undefined);
+  building = buildIndex(options);
+  await building;
 }
 
-async function showNoTokenFoundDialog() {
+// 从缓存恢复后的后台校验，记录在 building 中，之后的重建会等它结束
+function validateIndex(): Promise<void> {
+  return index.validate()
+    .catch((error) => reportIndexError("校验", error))
+    .finally(() => {
+      building = undefined;
+    });
+}
+
+// 索引缓存在工作区的 storageUri 下，没有打开工作区或关闭了 cache.enabled 时不缓存
+function getCacheFile(ctx: vscode.ExtensionContext): string | undefined {
+  const enabled = vscode.workspace.getConfiguration("css-value2design-token").get<boolean>("cache.enabled", true);
+  return ctx.storageUri && enabled ? vscode.Uri.joinPath(ctx.storageUri, "token-index.json").fsPath : undefined;
+}
+
+// 构建 / 校验索引失败（如 index.classWhitelist 中的正则无效）时提示，而不是留下未处理的 rejection
+function reportIndexError(action: string, error: unknown) {
+  vscode.window.showErrorMessage(`${action} token 索引失败: ${error instanceof Error ? error.message : String(error)}`);
+}
+
+function buildIndex(options: { ignoreCache?: boolean } = {}): Promise<void> {
+  return Promise.resolve(
+    vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Window, title: "索引 design tokens…" },
+      async () => {
+        await index.build(options);
+      },
+    ),
+  ).finally(() => {
+    building = undefined;
+  });
+}
+
+async function showNoTokenFoundDialog(
+  editor: vscode.TextEditor,
+  range: vscode.Range,
+  raw: string,
+) {
   const action = await vscode.window.showInformationMessage(
     "未找到匹配的 design token",
+    "新建 token",
     "查看所有文件"
   );
   
-  if (action === "查看所有文件") {
+  if (action === "新建 token") {
+    await createTokenFromSelection(editor, range, raw);
+  } else if (action === "查看所有文件") {
     await showAllIndexedFiles();
   }
 }
 
+/**
+ * 新建 token：命名建议 → 选择目标文件 → 选择目标 block → 插入声明并替换选中值
+ */
+async function createTokenFromSelection(
+  editor: vscode.TextEditor,
+  range: vscode.Range,
+  raw: string,
+) {
+  // 1. 根据值与所在属性推断类别，生成命名建议
+  const lineText = editor.document.lineAt(range.start.line).text;
+  const property = lineText.substring(0, range.start.character).match(/([\w-]+)\s*:[^:;]*$/)?.[1];
+  const category = detectValueCategory(raw, property);
+  const suggestions = suggestTokenNames(raw, category, (n) => index.findByName(n).length > 0);
+
+  const name = await vscode.window.showInputBox({
+    title: "新建 token",
+    prompt: `值: ${raw}（类别: ${category}）${suggestions.length > 1 ? `，其他建议: ${suggestions.slice(1).join(", ")}` : ""}`,
+    value: suggestions[0],
+    valueSelection: [suggestions[0].lastIndexOf("-") + 1, suggestions[0].length],
+    validateInput: (input) => {
+      const n = input.trim();
+      if (!isValidTokenName(n)) { return "token 名称必须以 -- 开头，且只包含字母、数字、- 或 _"; }
+      if (index.findByName(n).length) { return `${n} 已存在`; }
+      return undefined;
+    },
+  });
+  if (!name) { return; }
+  const tokenName = name.trim();
+
+  // 2. 选择目标文件（第三方包中的文件只读；JSON、JS / TS 主题对象与缩进语法文件无法写入 CSS 声明）
+  const fileInfos = index.getAllFileInfos().filter((f) => !f.package && canInsertTokenInto(f.path));
+  if (!fileInfos.length) {
+    vscode.window.showWarningMessage("没有可以写入 token 的样式文件（CSS / SCSS / Less / PostCSS），请先检查 sources 配置");
+    return;
+  }
+  const filePick = await vscode.window.showQuickPick(
+    [...fileInfos]
+      .sort((a, b) => b.tokenCount - a.tokenCount)
+      .map((fileInfo) => ({
+        label: `$(file-code) ${vscode.workspace.asRelativePath(fileInfo.path)}`,
+        description: `${fileInfo.tokenCount} tokens`,
+        detail: fileInfo.comment || undefined,
+        fileInfo,
+      })),
+    { placeHolder: `选择 ${tokenName} 要写入的文件` },
+  );
+  if (!filePick) { return; }
+
+  // 3. 选择目标 block
+  const target = await vscode.workspace.openTextDocument(filePick.fileInfo.path);
+  const css = target.getText();
+  const blockPick = await vscode.window.showQuickPick(
+    TOKEN_BLOCKS.map((block) => ({
+      label: block,
+      description: hasTokenBlock(css, block) ? "追加到已有 block" : "新建 block",
+      block,
+    })),
+    { placeHolder: "选择写入的位置" },
+  );
+  if (!blockPick) { return; }
+
+  // 4. 插入声明并替换选中值（同一个 WorkspaceEdit，可一次撤销）
+  const insertion = planTokenInsertion(css, blockPick.block as TokenBlock, tokenName, raw);
+  const edit = new vscode.WorkspaceEdit();
+  edit.insert(target.uri, target.positionAt(insertion.offset), insertion.text);
+  edit.replace(editor.document.uri, range, replaceWithVar(tokenName));
+  if (!(await vscode.workspace.applyEdit(edit))) {
+    vscode.window.showErrorMessage(`无法写入文件: ${filePick.fileInfo.path}`);
+    return;
+  }
+
+  // 保存目标文件并刷新索引
+  await target.save();
+  await index.onFileChange(target.fileName);
+  vscode.window.showInformationMessage(`已新建 ${tokenName}: ${raw}`);
+}
+
 async function showAllIndexedFiles() {
   const fileInfos = index.getAllFileInfos();
   if (!fileInfos.length) {
@@ -213,14 +502,19 @@ async function showAllIndexedFiles() {
   }
 
   const items = fileInfos.map(fileInfo => {
-    const relativePath = vscode.workspace.asRelativePath(fileInfo.path);
+    const relativePath = fileInfo.package
+      ? `${fileInfo.package} › ${fileInfo.path.split(/[\\/]/).pop()}`
+      : vscode.workspace.asRelativePath(fileInfo.path);
     const tokenCountText = fileInfo.tokenCount > 0 ? `${fileInfo.tokenCount} tokens` : '无 tokens';
     const lastModified = new Date(fileInfo.lastModified).toLocaleDateString('zh-CN');
     
     return {
-      label: `$(file-code) ${relativePath}`,
+      label: `$(${fileInfo.package ? "package" : "file-code"}) ${relativePath}`,
       description: `${tokenCountText} • ${lastModified}`,
-      detail: fileInfo.comment || '无注释',
+      detail: [
+        fileInfo.entry && fileInfo.entry !== fileInfo.path ? `经由 ${vscode.workspace.asRelativePath(fileInfo.entry)} 引入` : '',
+        fileInfo.comment || '无注释',
+      ].filter(Boolean).join(' • '),
       fileInfo: fileInfo
     };
   });
@@ -243,80 +537,3 @@ async function showAllIndexedFiles() {
     }
   }
 }
-
-/**
- * 根据 pattern 扩展替换范围
- * pattern 中 % 代表选中的值
- * 
- * 示例：
- * - pattern: [%]  →  text-[20px] 中选中 20px，扩展为 [20px]
- * - pattern: var(%%)  →  color: var(#1E90FF) 中选中 #1E90FF，扩展为 var(#1E90FF)
- * - 无 pattern  →  不扩展，只替换选中的值
- */
-function getExpandedRangeByPattern(
-  document: vscode.TextDocument,
-  originalRange: vscode.Range,
-  pattern?: string
-): vscode.Range {
-  // 如果没有 pattern，返回原始范围
-  if (!pattern) {
-    return originalRange;
-  }
-  
-  const line = document.lineAt(originalRange.start.line);
-  const lineText = line.text;
-  const selectedText = document.getText(originalRange);
-  
-  // 将 pattern 转换为正则表达式
-  // % 代表选中的值，需要转义其他特殊字符
-  const escapedPattern = pattern
-    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')  // 转义特殊字符
-    .replace(/\\%/g, '.*?');  // % 替换为非贪婪匹配
-  
-  // 构建正则表达式，匹配包含选中值的完整模式
-  const regex = new RegExp(escapedPattern.replace('.*?', escapeRegExp(selectedText)));
-  
-  // 在当前行中查找匹配
-  const startChar = originalRange.start.character;
-  const endChar = originalRange.end.character;
-  
-  // 向前查找：从选中位置开始，尝试找到模式的起始位置
-  const beforeText = lineText.substring(0, startChar);
-  const afterText = lineText.substring(endChar);
-  
-  // 根据 pattern 计算前后需要包含的字符数
-  const beforePattern = pattern.split('%')[0];
-  const afterPattern = pattern.split('%').slice(1).join('%');
-  
-  let newStart = startChar;
-  let newEnd = endChar;
-  
-  // 检查前面是否匹配
-  if (beforePattern && beforeText.endsWith(beforePattern)) {
-    newStart = startChar - beforePattern.length;
-  }
-  
-  // 检查后面是否匹配
-  if (afterPattern && afterText.startsWith(afterPattern)) {
-    newEnd = endChar + afterPattern.length;
-  }
-  
-  // 只有当找到完整的模式时才扩展范围
-  if (newStart < startChar || newEnd > endChar) {
-    return new vscode.Range(
-      originalRange.start.line,
-      newStart,
-      originalRange.end.line,
-      newEnd
-    );
-  }
-  
-  return originalRange;
-}
-
-/**
- * 转义正则表达式特殊字符
- */
-function escapeRegExp(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
@@ -0,0 +1,184 @@
+// src/providers/completion.ts
+// 补全：输入属性值、var( 或 class 属性时提示 design token
+import * as vscode from "vscode";
+import { TokenIndex, TokenHit } from "../core/indexer";
+import { categoryOfProperty, categoryOfToken, TokenCategory } from "../core/category";
+import { normalizeColor } from "../core/color";
+import { getClassHelpers, pickPreferredHit, replaceWithVar } from "../core/replace";
+import { DEFAULT_CLASS_HELPERS, isInClassList } from "../core/classContext";
+import { findDeclarationContext } from "../core/declarationContext";
+import { isTokenUsableIn } from "../core/dialect";
+import { describeTokenSource } from "./lookup";
+import { utilityClassName } from "../core/tailwind";
+
+export const COMPLETION_TRIGGER_CHARACTERS = [":", "(", "-", " ", "[", '"', "'"];
+
+// 可以写 CSS 声明的语言
+const DECLARATION_LANGUAGES = new Set(["css", "scss", "less", "postcss"]);
+
+// 只在 style 属性与 <style> 块中写 CSS 声明的语言
+const EMBEDDED_LANGUAGES = new Set(["vue", "svelte", "html"]);
+
+export type CompletionContext =
+  | { kind: "var"; replaceStart: number }                            // var(--| 只补全变量名
+  | { kind: "declaration"; property: string; replaceStart: number }  // color: |
+  | { kind: "class"; prefix: string; replaceStart: number };         // class="bg-|" / @apply bg-| / cn("bg-|")
+
+export class TokenCompletionProvider implements vscode.CompletionItemProvider {
+  constructor(private index: TokenIndex) {}
+
+  provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): vscode.CompletionItem[] | undefined {
+    const cfg = vscode.workspace.getConfiguration("css-value2design-token");
+    if (!cfg.get<boolean>("completion.enabled", true) || !this.index.isReady()) {
+      return undefined;
+    }
+
+    const line = document.lineAt(position.line).text;
+    const context = detectContext(document.getText(), document.offsetAt(position), document.languageId, getClassHelpers());
+    if (!context) { return undefined; }
+
+    const range = new vscode.Range(position.line, context.replaceStart, position.line, position.character);
+    const wanted = context.kind === "declaration" ? categoryOfProperty(context.property) : undefined;
+
+    const items: vscode.CompletionItem[] = [];
+    for (const hit of this.uniqueTokens()) {
+      // var( 中只能用自定义属性，方言变量（$x / @x）只用于对应的预处理器文件，类名中只看能否生成工具类
+      if (context.kind === "class") {
+        if (!hit.alias && !classNameFor(hit, context.prefix)) { continue; }
+      } else if (context.kind === "var" ? !hit.name.startsWith("--") : !isTokenUsableIn(hit.name, document.fileName)) {
+        continue;
+      }
+      const { value } = this.index.resolve(hit);
+      const category = categoryOfToken(hit.name, value);
+      if (wanted && !isCompatible(wanted, category)) { continue; }
+      items.push(this.createItem(hit, value, category, context, range, line, position));
+    }
+    return items;
+  }
+
+  // 同名 token 可能定义在多个作用域中，只保留一个（@theme > :root > 其他）
+  private uniqueTokens(): TokenHit[] {
+    return this.index.getTokenGroups().map((hits) => pickPreferredHit(hits)!);
+  }
+
+  private createItem(
+    hit: TokenHit,
+    value: string,
+    category: TokenCategory,
+    context: CompletionContext,
+    range: vscode.Range,
+    line: string,
+    position: vscode.Position,
+  ): vscode.CompletionItem {
+    const color = category === "color" ? normalizeColor(value) : null;
+    const className = context.kind === "class" ? classNameFor(hit, context.prefix) : undefined;
+    const item = new vscode.CompletionItem(
+      { label: className ?? (context.kind === "class" ? hit.alias! : hit.name), description: value },
+      color ? vscode.CompletionItemKind.Color : vscode.CompletionItemKind.Variable,
+    );
+
+    // Color 类型的补全项只从字符串形式的 documentation 中读取颜色并渲染色块，
+    // 因此颜色 token 的 documentation 为归一化的 #rrggbb，说明改为纯文本放在 detail 中
+    if (color) {
+      item.documentation = color;
+      item.detail = [
+        `${hit.name}: ${hit.value}`,
+        hit.value !== value ? ` → ${value}` : "",
+        hit.alias ? ` · 别名: ${hit.alias}` : "",
+        ` · ${describeTokenSource(hit)}`,
+      ].join("");
+    } else {
+      item.detail = value;
+      item.documentation = new vscode.MarkdownString(
+        [
+          `\`${hit.name}: ${hit.value}\``,
+          hit.value !== value ? `\n\n解析值: \`${value}\`` : "",
+          hit.alias ? `\n\n别名: \`${hit.alias}\`${hit.pattern ? ` 模式: \`${hit.pattern}\`` : ""}` : "",
+          `\n\n${describeTokenSource(hit)}`,
+        ].join(""),
+      );
+    }
+    item.filterText = `${hit.name} ${hit.alias ?? ""} ${value}`;
+    item.sortText = `${category === "other" ? 1 : 0}${hit.name}`;
+
+    if (context.kind === "var") {
+      item.insertText = hit.name;
+      item.range = range;
+    } else if (context.kind === "declaration") {
+      item.insertText = replaceWithVar(hit.name);
+      item.range = range;
+    } else if (className) {
+      // Tailwind 命名空间推导的工具类：bg- 后补全 primary
+      item.insertText = hit.utility!.key;
+      item.filterText = `${hit.utility!.key} ${hit.name} ${value}`;
+      item.range = range;
+    } else {
+      // class 中按 pattern 替换：如 text-[ + 别名 + ] -> text-xl
+      const [prefix = "", suffix = ""] = (hit.pattern ?? "%").split("%");
+      const typed = line.substring(context.replaceStart, position.character);
+      const start = prefix && typed.startsWith(prefix) ? context.replaceStart : position.character - typed.length;
+      const after = line.substring(position.character);
+      const end = suffix && after.startsWith(suffix) ? position.character + suffix.length : position.character;
+      item.insertText = hit.alias;
+      item.range = new vscode.Range(position.line, start, position.line, end);
+    }
+    return item;
+  }
+}
+
+/**
+ * 根据光标位置判断补全场景，replaceStart 为光标所在行中待替换部分的开始列
+ * 例如: var(--|、<div class="bg-|">、.btn { color: #1e| }；选择器（a:h）与规则块外的文本不补全
+ */
+export function detectContext(
+  text: string,
+  offset: number,
+  languageId: string,
+  helpers: string[] = DEFAULT_CLASS_HELPERS,
+): CompletionContext | undefined {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  const before = text.substring(lineStart, offset);
+
+  // var(--xx|
+  const varMatch = before.match(/var\(\s*(-{0,2}[\w-]*)$/);
+  if (varMatch) {
+    return { kind: "var", replaceStart: before.length - varMatch[1].length };
+  }
+
+  // class="... text-[|" / @apply text-[| / cn("text-[|")
+  if (isInClassList(text, offset, helpers)) {
+    const word = before.match(/[^\s"'`{]*$/)![0];
+    // 去掉 utility 前缀（如 bg-），保留 pattern 的前缀字符（如 [）供替换时判断
+    const bracket = word.lastIndexOf("[");
+    const dash = word.lastIndexOf("-");
+    const start = bracket !== -1 ? bracket : dash + 1;
+    // hover:!bg- -> bg，用于匹配 Tailwind 命名空间推导的工具类
+    const prefix = word.substring(0, Math.max(dash, 0)).split(":").pop()!.replace(/^!/, "");
+    return { kind: "class", prefix, replaceStart: before.length - word.length + start };
+  }
+
+  // color: #1e| / padding: 0 1| / style="color: |"
+  if (DECLARATION_LANGUAGES.has(languageId) || EMBEDDED_LANGUAGES.has(languageId)) {
+    const declaration = findDeclarationContext(text, offset, EMBEDDED_LANGUAGES.has(languageId));
+    // 待替换的单词不跨行
+    if (declaration && declaration.valueStart >= lineStart) {
+      return { kind: "declaration", property: declaration.property, replaceStart: declaration.valueStart - lineStart };
+    }
+  }
+
+  return undefined;
+}
+
+// Tailwind 工具类前缀可以使用该 token 时返回完整的类名，如 bg + --color-primary -> bg-primary
+function classNameFor(hit: TokenHit, prefix: string): string | undefined {
+  return hit.utility && prefix ? utilityClassName(hit.utility, prefix) : undefined;
+}
+
+function isCompatible(wanted: TokenCategory, actual: TokenCategory): boolean {
+  if (wanted === actual) { return true; }
+  // 长度类属性同时接受 spacing / radius 尺寸
+  return wanted === "spacing" && actual === "radius";
+}
@@ -0,0 +1,89 @@
+// src/providers/definition.ts
+// 跳转到定义（F12）与查找所有引用（Shift+F12）：支持 --x 变量名与别名工具类
+import * as vscode from "vscode";
+import { TokenIndex } from "../core/indexer";
+import { escapeRegExp } from "../core/replace";
+import { SCANNABLE_EXTENSIONS } from "../core/scan";
+import { findTokenAtPosition, locateTokenHit } from "./lookup";
+
+// 只在这些文件的 class 中查找别名的用法，避免把 CSS 中的同名单词当作引用
+const CLASS_EXTENSIONS = /\.(html?|vue|svelte|jsx|tsx)$/i;
+
+export class TokenDefinitionProvider implements vscode.DefinitionProvider {
+  constructor(private index: TokenIndex) {}
+
+  async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Location[] | undefined> {
+    if (!this.index.isReady()) { return undefined; }
+    const found = findTokenAtPosition(this.index, document, position);
+    if (!found) { return undefined; }
+
+    // 同名变量在 :root / [data-theme=dark] 等多个作用域中定义时全部返回
+    const locations = await Promise.all(found.hits.map(locateTokenHit));
+    return locations.filter((l): l is vscode.Location => !!l);
+  }
+}
+
+export class TokenReferenceProvider implements vscode.ReferenceProvider {
+  constructor(private index: TokenIndex) {}
+
+  async provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.Location[] | undefined> {
+    if (!this.index.isReady()) { return undefined; }
+    const found = findTokenAtPosition(this.index, document, position);
+    if (!found) { return undefined; }
+
+    const varPattern = new RegExp(`${escapeRegExp(found.name)}(?![\\w-])`, "g");
+    const alias = found.hits.find((h) => h.alias)?.alias;
+    // hover:bg-neutral-4/50 中的 neutral-4；前面必须是分隔符或工具类前缀，避免命中 --spacing-xl
+    const aliasPattern = alias
+      ? new RegExp(`(?<=^|[\\s"'\`{:!])(?:[a-z][\\w]*-)*${escapeRegExp(alias)}(?![\\w-])`, "g")
+      : undefined;
+    // Tailwind 命名空间推导的工具类：bg-primary / text-primary ...
+    const utility = found.hits.find((h) => h.utility)?.utility;
+    const utilityPattern = utility
+      ? new RegExp(
+        `(?<=^|[\\s"'\`{:!])(?:${utility.prefixes.map(escapeRegExp).join("|")})-${escapeRegExp(utility.key)}(?![\\w-])`,
+        "g",
+      )
+      : undefined;
+
+    const definitions = new Set(found.hits.map((h) => `${h.file}#${h.offset}`));
+    const exclude = vscode.workspace.getConfiguration("css-value2design-token").get<string>("bulkReplace.exclude");
+    const files = await vscode.workspace.findFiles(
+      `**/*.{${SCANNABLE_EXTENSIONS.join(",")}}`,
+      exclude ?? "**/node_modules/**",
+      undefined,
+      token,
+    );
+
+    const results: vscode.Location[] = [];
+    for (const file of files) {
+      if (token.isCancellationRequested) { return undefined; }
+      // 先读原始内容过滤，只为有命中的文件打开文档
+      const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(file));
+      const offsets = [...text.matchAll(varPattern)].map((m) => ({ start: m.index!, length: m[0].length }));
+      if (CLASS_EXTENSIONS.test(file.fsPath)) {
+        for (const pattern of [aliasPattern, utilityPattern]) {
+          if (!pattern) { continue; }
+          for (const m of text.matchAll(pattern)) {
+            if (!offsets.some((o) => o.start === m.index)) { offsets.push({ start: m.index!, length: m[0].length }); }
+          }
+        }
+      }
+      if (!offsets.length) { continue; }
+
+      const target = await vscode.workspace.openTextDocument(file);
+      for (const { start, length } of offsets) {
+        if (!context.includeDeclaration && definitions.has(`${file.fsPath}#${start}`)) { continue; }
+        results.push(
+          new vscode.Location(target.uri, new vscode.Range(target.positionAt(start), target.positionAt(start + length))),
+        );
+      }
+    }
+    return results;
+  }
+}
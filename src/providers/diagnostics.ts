@@ -0,0 +1,144 @@
+// src/providers/diagnostics.ts
+// 诊断：标记可以被 design token 替换的硬编码值，并提供与 Find Design Token 相同逻辑的快速修复
+import * as vscode from "vscode";
+import { TokenIndex, TokenHit } from "../core/indexer";
+import { buildTokenReplacement, pickPreferredHit } from "../core/replace";
+import { findTokenMatches, isScannableFile } from "../core/scan";
+import { isTokenUsableIn } from "../core/dialect";
+import { describeTokenSource } from "./lookup";
+
+export const DIAGNOSTIC_SOURCE = "design-token";
+
+const SEVERITY: Record<string, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint,
+};
+
+const UPDATE_DELAY = 300;
+
+/**
+ * 为打开的样式文档维护诊断：文档打开/编辑（防抖）、索引变化、配置变化时刷新
+ */
+export class TokenDiagnostics implements vscode.Disposable {
+  private collection = vscode.languages.createDiagnosticCollection("css-value2design-token");
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private index: TokenIndex) {
+    this.disposables.push(
+      this.collection,
+      vscode.workspace.onDidOpenTextDocument((doc) => this.schedule(doc)),
+      vscode.workspace.onDidChangeTextDocument((e) => this.schedule(e.document)),
+      vscode.workspace.onDidCloseTextDocument((doc) => this.collection.delete(doc.uri)),
+      index.onDidChange(() => this.refreshAll()),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (
+          e.affectsConfiguration("css-value2design-token.diagnostics") ||
+          e.affectsConfiguration("css-value2design-token.theme.match")
+        ) {
+          this.refreshAll();
+        }
+      }),
+    );
+  }
+
+  refreshAll() {
+    vscode.workspace.textDocuments.forEach((doc) => this.update(doc));
+  }
+
+  update(document: vscode.TextDocument) {
+    const cfg = vscode.workspace.getConfiguration("css-value2design-token");
+    if (
+      !cfg.get<boolean>("diagnostics.enabled", true) ||
+      !this.index.isReady() ||
+      document.uri.scheme === "output" ||
+      !isScannableFile(document.fileName)
+    ) {
+      this.collection.delete(document.uri);
+      return;
+    }
+
+    const severity = SEVERITY[cfg.get<string>("diagnostics.severity") ?? "information"] ?? SEVERITY.information;
+    const diagnostics = findTokenMatches(this.index, document.getText(), document.fileName).map((m) => {
+      const range = new vscode.Range(document.positionAt(m.offset), document.positionAt(m.offset + m.length));
+      const names = m.hits.slice(0, 3).map((h) => h.name).join(", ");
+      const more = m.hits.length > 3 ? ` 等 ${m.hits.length} 个` : "";
+      const diagnostic = new vscode.Diagnostic(range, `${m.value} 可以使用 design token 替换: ${names}${more}`, severity);
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      return diagnostic;
+    });
+    this.collection.set(document.uri, diagnostics);
+  }
+
+  dispose() {
+    this.timers.forEach((t) => clearTimeout(t));
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private schedule(document: vscode.TextDocument) {
+    const key = document.uri.toString();
+    clearTimeout(this.timers.get(key));
+    this.timers.set(
+      key,
+      setTimeout(() => {
+        this.timers.delete(key);
+        this.update(document);
+      }, UPDATE_DELAY),
+    );
+  }
+}
+
+/**
+ * 快速修复：为每个命中的 token 提供替换（有别名时按 @pattern 使用别名，并额外提供 var() 替换）
+ */
+export class TokenQuickFixProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(private index: TokenIndex) {}
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext,
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== DIAGNOSTIC_SOURCE) { continue; }
+      const norm = this.index.normalize(document.getText(diagnostic.range));
+      const hits = norm
+        ? this.index.filterByTheme(this.index.findByValue(norm).filter((h) => isTokenUsableIn(h.name, document.fileName)))
+        : [];
+      const preferred = pickPreferredHit(hits);
+      const ordered = preferred ? [preferred, ...hits.filter((h) => h !== preferred)] : [];
+
+      ordered.forEach((hit, i) => {
+        actions.push(this.createFix(document, diagnostic, hit, false, i === 0));
+        if (hit.alias) {
+          actions.push(this.createFix(document, diagnostic, hit, true, false));
+        }
+      });
+    }
+    return actions;
+  }
+
+  private createFix(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    hit: TokenHit,
+    forceVar: boolean,
+    isPreferred: boolean,
+  ): vscode.CodeAction {
+    const replacement = buildTokenReplacement(document, diagnostic.range, hit, forceVar);
+    const action = new vscode.CodeAction(
+      `替换为 ${replacement.text} (${describeTokenSource(hit)})`,
+      vscode.CodeActionKind.QuickFix,
+    );
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(document.uri, replacement.range, replacement.text);
+    action.diagnostics = [diagnostic];
+    action.isPreferred = isPreferred;
+    return action;
+  }
+}
@@ -0,0 +1,93 @@
+// src/providers/hover.ts
+// 悬停：展示 token 的最终值、引用链、各主题下的值、定义位置与别名
+import * as vscode from "vscode";
+import { TokenIndex, TokenHit } from "../core/indexer";
+import { pickPreferredHit } from "../core/replace";
+import { themeLabel } from "../core/themes";
+import { describeTokenSource, findTokenAtPosition } from "./lookup";
+
+export class TokenHoverProvider implements vscode.HoverProvider {
+  // 定义文件的行首偏移，按索引记录的 mtime 缓存：悬停时不必为每个定义文件打开文档，文件重新索引后才重新读取
+  private lineStarts = new Map<string, { mtime: number; starts: Promise<number[]> }>();
+
+  constructor(private index: TokenIndex) {}
+
+  async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+    if (!this.index.isReady()) { return undefined; }
+    const found = findTokenAtPosition(this.index, document, position);
+    if (!found) { return undefined; }
+
+    const primary = pickPreferredHit(found.hits)!;
+    const { value, chain, cyclic } = this.index.resolve(primary);
+
+    const md = new vscode.MarkdownString();
+    md.appendMarkdown(`**${found.name}**`);
+    md.appendCodeblock(`${found.name}: ${primary.value};`, "css");
+
+    // 引用链：--color-neutral-4 → --neutral-4 → #edf0f2
+    md.appendMarkdown(chain.length > 1 ? `解析值: \`${[...chain, value].join(" → ")}\`` : `值: \`${value}\``);
+    if (!primary.referencedVar && primary.referencedVars) {
+      md.appendMarkdown(`\n\n引用: ${primary.referencedVars.map((v) => `\`${v}\``).join(", ")}`);
+    }
+    if (cyclic) { md.appendMarkdown("\n\n⚠️ 存在循环引用，无法解析出最终值"); }
+
+    // 同一变量在多个选择器 / @media 条件下有定义时，按主题列出各自的最终值
+    if (found.hits.length > 1) {
+      md.appendMarkdown("\n\n| 主题 | 作用域 | 值 |\n|---|---|---|\n");
+      const hits = [...found.hits].sort((a, b) => (a.theme ?? "").localeCompare(b.theme ?? ""));
+      for (const hit of hits) {
+        const scope = `${hit.selector ?? ":root"}${hit.media ? ` @media ${hit.media}` : ""}`;
+        md.appendMarkdown(`| ${themeLabel(hit.theme)} | \`${scope}\` | \`${this.index.resolve(hit).value}\` |\n`);
+      }
+    }
+
+    const aliased = found.hits.find((h) => h.alias);
+    if (aliased) {
+      md.appendMarkdown(`\n\n别名: \`${aliased.alias}\`${aliased.pattern ? ` 模式: \`${aliased.pattern}\`` : ""}`);
+    }
+
+    md.appendMarkdown("\n\n---\n\n");
+    md.appendMarkdown((await Promise.all(found.hits.map((hit) => this.definitionLink(hit)))).join("  \n"));
+
+    return new vscode.Hover(md, found.range);
+  }
+
+  // 定义位置的链接，点击直接打开到对应行
+  private async definitionLink(hit: TokenHit): Promise<string> {
+    const uri = vscode.Uri.file(hit.file);
+    const line = await this.lineOf(hit);
+    const label = `${describeTokenSource(hit)}:${line + 1}`;
+    return `[${label}](${uri.with({ fragment: `L${line + 1}` }).toString()})${hit.selector ? ` \`${hit.selector}\`` : ""}`;
+  }
+
+  // hit.offset 所在的行（从 0 开始），文件无法读取时为 0
+  private async lineOf(hit: TokenHit): Promise<number> {
+    const mtime = this.index.getFileInfo(hit.file)?.lastModified ?? 0;
+    let cached = this.lineStarts.get(hit.file);
+    if (cached?.mtime !== mtime) {
+      cached = { mtime, starts: readLineStarts(hit.file) };
+      this.lineStarts.set(hit.file, cached);
+    }
+    const starts = await cached.starts;
+    // 二分查找最后一个不大于 offset 的行首
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (starts[mid] <= hit.offset) { low = mid; } else { high = mid - 1; }
+    }
+    return low;
+  }
+}
+
+// 文件中每一行行首的偏移
+async function readLineStarts(file: string): Promise<number[]> {
+  const starts = [0];
+  try {
+    const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(vscode.Uri.file(file)));
+    for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) { starts.push(i + 1); }
+  } catch {
+    // 文件已删除或无法读取时链接指向第一行
+  }
+  return starts;
+}
@@ -0,0 +1,19 @@
+// src/providers/languages.ts
+import * as vscode from "vscode";
+
+// 诊断、补全、悬停等功能生效的文档类型
+export const STYLE_LANGUAGES = [
+  "css",
+  "scss",
+  "less",
+  "postcss",
+  "vue",
+  "svelte",
+  "html",
+  "javascriptreact",
+  "typescriptreact",
+];
+
+export const STYLE_DOCUMENT_SELECTOR: vscode.DocumentSelector = STYLE_LANGUAGES.map((language) => ({
+  language,
+}));
@@ -0,0 +1,116 @@
+// src/providers/lookup.ts
+// 找出光标处引用的 token：自定义属性名（--x）或 class 中的别名（bg-neutral-4）
+import * as vscode from "vscode";
+import { TokenIndex, TokenHit } from "../core/indexer";
+import { stripUtilityPrefix } from "../core/tailwind";
+import { buildTokenReplacement, getUtilityContext, isTokenReplaceableIn } from "../core/replace";
+
+export type TokenAtPosition = {
+  range: vscode.Range;   // 光标处的变量名 / 工具类范围
+  name: string;          // token 变量名，如 --color-neutral-4
+  hits: TokenHit[];      // 该变量在所有作用域中的定义
+  alias?: string;        // 通过别名命中时的别名
+};
+
+/**
+ * 解析光标处的 token
+ * - --color-primary / var(--color-primary) / $primary / @primary：按变量名查找
+ * - hover:bg-neutral-4/50：去掉变体、! 与透明度后，依次尝试 bg-neutral-4 与去掉已知工具类前缀的 neutral-4 作为别名，
+ *   再按 Tailwind 命名空间推导的工具类查找（bg-primary -> @theme 中的 --color-primary）
+ */
+export function findTokenAtPosition(
+  index: TokenIndex,
+  document: vscode.TextDocument,
+  position: vscode.Position,
+): TokenAtPosition | undefined {
+  const varRange = document.getWordRangeAtPosition(position, /(?:--|\$|@)[\w-]+/);
+  if (varRange) {
+    const name = document.getText(varRange);
+    const hits = index.findByName(name);
+    return hits.length ? { range: varRange, name, hits } : undefined;
+  }
+
+  const classRange = document.getWordRangeAtPosition(position, /[\w\-:/[\]!.]+/);
+  if (!classRange) { return undefined; }
+  const utility = stripUtilityModifiers(document.getText(classRange));
+  for (const alias of aliasCandidates(utility)) {
+    const aliasHits = index.findByAlias(alias);
+    if (!aliasHits.length) { continue; }
+    // 别名只标记了某一个定义，其他作用域中的同名变量也一起返回
+    const name = aliasHits[0].name;
+    return { range: classRange, name, hits: index.findByName(name), alias };
+  }
+  const utilityHits = index.findByUtilityClass(utility);
+  if (utilityHits.length) {
+    const name = utilityHits[0].name;
+    return { range: classRange, name, hits: index.findByName(name) };
+  }
+  return undefined;
+}
+
+// hover:md:!bg-primary/50 -> bg-primary
+function stripUtilityModifiers(word: string): string {
+  return word
+    .split(":")
+    .pop()!
+    .replace(/^!|!$/g, "")
+    .replace(/\/[\w.[\]%]+$/, "");
+}
+
+// bg-neutral-4 -> ['bg-neutral-4', 'neutral-4']；只去掉已知的工具类前缀，card-4 不会退化成别名 4
+function aliasCandidates(utility: string): string[] {
+  return [utility, ...stripUtilityPrefix(utility)];
+}
+
+/**
+ * token 来源的展示文本：第三方包显示包说明符，否则显示相对路径
+ * 例如: open-props 中的 token -> 'open-props'；src/tokens.css 中的 token -> 'src/tokens.css'
+ */
+export function describeTokenSource(hit: TokenHit): string {
+  return hit.package ?? vscode.workspace.asRelativePath(hit.file);
+}
+
+/**
+ * 打开 token 定义所在的文件并把光标移到定义处
+ */
+export async function revealTokenHit(hit: TokenHit) {
+  try {
+    const document = await vscode.workspace.openTextDocument(hit.file);
+    const position = document.positionAt(hit.offset);
+    const editor = await vscode.window.showTextDocument(document);
+    editor.selection = new vscode.Selection(position, position);
+    editor.revealRange(new vscode.Range(position, position));
+  } catch {
+    vscode.window.showErrorMessage(`无法打开文件: ${hit.file}`);
+  }
+}
+
+/**
+ * 把 token 插入到编辑器的每个选区，与 Find Design Token 回车相同的替换规则：工具类 / 别名（按 @pattern 扩展选区）/ var(--x)
+ * 当前位置不能使用该 token 时（如 CSS 文件中的 $x、类名中的主题对象）只给出提示
+ */
+export async function insertTokenHit(editor: vscode.TextEditor, hit: TokenHit) {
+  const document = editor.document;
+  if (!isTokenReplaceableIn(hit, document.fileName, !!getUtilityContext(document, editor.selection))) {
+    vscode.window.showWarningMessage(`${hit.name} 不能在 ${vscode.workspace.asRelativePath(document.uri)} 中使用`);
+    return;
+  }
+  await editor.edit((edit) => {
+    for (const selection of editor.selections) {
+      const replacement = buildTokenReplacement(document, selection, hit);
+      edit.replace(replacement.range, replacement.text);
+    }
+  });
+}
+
+/**
+ * token 定义所在的位置（TokenHit 只记录了字符偏移，需要打开文档换算成行列）
+ */
+export async function locateTokenHit(hit: TokenHit): Promise<vscode.Location | undefined> {
+  try {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(hit.file));
+    return new vscode.Location(document.uri, document.positionAt(hit.offset));
+  } catch {
+    return undefined; // 文件已被删除
+  }
+}
@@ -0,0 +1,239 @@
+// src/providers/palette.ts
+// token 调色板：在 webview 中以色块、间距 / 圆角标尺、阴影与字体样例展示所有 token，点击插入到最近活动的编辑器
+import * as vscode from "vscode";
+import { randomBytes } from "node:crypto";
+import { TokenIndex, TokenHit } from "../core/indexer";
+import { buildPalette, PaletteEntry, PaletteSection } from "../core/palette";
+import { pickPreferredHit } from "../core/replace";
+import { themeLabel } from "../core/themes";
+import { describeTokenSource, insertTokenHit } from "./lookup";
+
+const SECTION_TITLES: Record<PaletteSection, string> = {
+  color: "颜色",
+  spacing: "间距",
+  radius: "圆角",
+  shadow: "阴影",
+  typography: "字体",
+  other: "其他",
+};
+
+type PaletteItem = PaletteEntry & {
+  alias?: string;
+  source: string;        // 定义位置，如 src/tokens.css / open-props
+  themes: string[];      // 各主题下的值，如 ['默认: #ffffff', 'dark: #111111']
+};
+
+export class TokenPalettePanel implements vscode.Disposable {
+  private panel?: vscode.WebviewPanel;
+  private panelDisposables: vscode.Disposable[] = []; // 随面板关闭一起释放
+  private hits = new Map<string, TokenHit>();          // 变量名 → 展示的定义，点击时按变量名查找
+  private lastEditor = vscode.window.activeTextEditor;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(private index: TokenIndex) {
+    this.disposables.push(
+      // 打开调色板后活动编辑器变为 undefined，记住之前的文本编辑器作为插入目标
+      vscode.window.onDidChangeActiveTextEditor((editor) => {
+        if (editor) { this.lastEditor = editor; }
+      }),
+      index.onDidChange(() => this.refresh()),
+    );
+  }
+
+  /**
+   * 打开调色板（已打开时切换过去）
+   */
+  show() {
+    if (this.panel) {
+      this.panel.reveal();
+      return;
+    }
+    this.panel = vscode.window.createWebviewPanel(
+      "css-value2design-token.palette",
+      "Design Token Palette",
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      { enableScripts: true, retainContextWhenHidden: true },
+    );
+    this.panel.webview.html = renderHtml(randomBytes(16).toString("base64"), this.panel.webview.cspSource);
+    // 回传变量名而不是下标：点击与索引刷新之间 token 列表可能已经变化
+    this.panel.webview.onDidReceiveMessage((message) => {
+      if (message?.type === "ready") { this.refresh(); }
+      if (message?.type === "insert") { this.insert(this.hits.get(message.name)); }
+    }, undefined, this.panelDisposables);
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+      this.hits.clear();
+      this.panelDisposables.forEach((d) => d.dispose());
+      this.panelDisposables = [];
+    }, undefined, this.panelDisposables);
+  }
+
+  dispose() {
+    this.panel?.dispose();
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  // 索引变化时重新发送 token，webview 保留滚动位置与过滤条件
+  private refresh() {
+    if (!this.panel) { return; }
+    // 同名 token 只展示一个（@theme > :root > 其他），各主题的值在提示中列出
+    const byName = new Map<string, TokenHit[]>();
+    for (const hit of this.index.getAllTokens()) {
+      byName.set(hit.name, [...byName.get(hit.name) ?? [], hit]);
+    }
+    this.hits = new Map([...byName].map(([name, hits]) => [name, pickPreferredHit(hits)!]));
+
+    const items: PaletteItem[] = [...this.hits.values()].map((hit) => {
+      const themeValues = this.index.getThemeValues(hit.name);
+      return {
+        name: hit.name,
+        value: this.index.resolve(hit).value,
+        alias: hit.alias,
+        source: describeTokenSource(hit),
+        themes: themeValues.length > 1 ? themeValues.map((t) => `${themeLabel(t.theme)}: ${t.value}`) : [],
+      };
+    });
+    const groups = buildPalette(items, (value) => {
+      const px = this.index.normalize(value)?.match(/^(-?\d*\.?\d+)px$/);
+      return px ? parseFloat(px[1]) : undefined;
+    }).map((group) => ({ ...group, title: SECTION_TITLES[group.section] }));
+    this.panel.webview.postMessage({ type: "tokens", groups });
+  }
+
+  // 插入到打开调色板前的编辑器中
+  private async insert(hit: TokenHit | undefined) {
+    if (!hit) { return; }
+    if (!this.lastEditor || this.lastEditor.document.isClosed) {
+      vscode.window.showWarningMessage("没有可以插入 token 的编辑器");
+      return;
+    }
+    const editor = await vscode.window.showTextDocument(this.lastEditor.document, this.lastEditor.viewColumn);
+    await insertTokenHit(editor, hit);
+  }
+}
+
+// ---------- webview ----------
+
+// 只允许内联的 nonce 脚本与样式；token 的值通过 CSSOM（element.style）设置，不拼接进 HTML
+function renderHtml(nonce: string, cspSource: string): string {
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<style>
+  body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 24px; }
+  input { width: 100%; box-sizing: border-box; padding: 4px 8px; margin: 12px 0; color: var(--vscode-input-foreground);
+    background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); }
+  h2 { font-size: 1.1em; margin: 20px 0 8px; border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 4px; }
+  h3 { font-size: 0.9em; margin: 12px 0 6px; opacity: 0.8; }
+  .grid { display: flex; flex-wrap: wrap; gap: 8px; }
+  .list { display: flex; flex-direction: column; gap: 4px; }
+  .token { cursor: pointer; border-radius: 4px; padding: 4px; }
+  .token:hover { background: var(--vscode-list-hoverBackground); }
+  .grid .token { width: 96px; }
+  .list .token { display: flex; align-items: center; gap: 12px; }
+  .swatch { height: 48px; border-radius: 4px; border: 1px solid var(--vscode-panel-border);
+    background-image: linear-gradient(45deg, #8882 25%, transparent 25%, transparent 75%, #8882 75%); background-size: 8px 8px; }
+  .swatch > div { width: 100%; height: 100%; border-radius: 3px; }
+  .ruler { height: 12px; min-width: 1px; max-width: 60%; background: var(--vscode-button-background); }
+  .radius { width: 40px; height: 40px; border: 2px solid var(--vscode-button-background); flex: none; }
+  .shadow { width: 96px; height: 48px; margin: 12px; background: var(--vscode-editor-background); flex: none; }
+  .sample { flex: 1; overflow: hidden; white-space: nowrap; text-overflow: ellipsis; }
+  .name { font-family: var(--vscode-editor-font-family); font-size: 0.85em; word-break: break-all; }
+  .value { font-size: 0.8em; opacity: 0.7; word-break: break-all; }
+  .meta { min-width: 200px; }
+  .empty { opacity: 0.7; }
+</style>
+</head>
+<body>
+<input id="filter" placeholder="按变量名、值或别名过滤，点击 token 插入到编辑器">
+<div id="root"></div>
+<script nonce="${nonce}">
+  const vscode = acquireVsCodeApi();
+  const root = document.getElementById("root");
+  const filter = document.getElementById("filter");
+  let groups = [];
+
+  function el(tag, className, text) {
+    const e = document.createElement(tag);
+    if (className) { e.className = className; }
+    if (text !== undefined) { e.textContent = text; }
+    return e;
+  }
+
+  function meta(token) {
+    const m = el("div", "meta");
+    m.append(el("div", "name", token.entry.name), el("div", "value", token.entry.value + (token.entry.alias ? " · " + token.entry.alias : "")));
+    return m;
+  }
+
+  function renderToken(section, token) {
+    const item = el("div", "token");
+    const entry = token.entry;
+    item.title = [entry.name + ": " + entry.value, ...entry.themes, entry.alias ? "别名: " + entry.alias : "", entry.source]
+      .filter(Boolean).join("\\n");
+    item.addEventListener("click", () => vscode.postMessage({ type: "insert", name: entry.name }));
+    if (section === "color") {
+      const swatch = el("div", "swatch");
+      const fill = el("div");
+      fill.style.background = token.color;
+      swatch.append(fill);
+      item.append(swatch, meta(token));
+    } else if (section === "spacing") {
+      const ruler = el("div", "ruler");
+      ruler.style.width = Math.abs(token.px) + "px";
+      item.append(meta(token), ruler);
+    } else if (section === "radius") {
+      const box = el("div", "radius");
+      box.style.borderRadius = entry.value;
+      item.append(box, meta(token));
+    } else if (section === "shadow") {
+      const box = el("div", "shadow");
+      box.style.boxShadow = entry.value;
+      item.append(box, meta(token));
+    } else if (section === "typography") {
+      const sample = el("div", "sample", "Aa 设计令牌 The quick brown fox");
+      sample.style.setProperty(token.property, entry.value);
+      item.append(meta(token), sample);
+    } else {
+      item.append(meta(token));
+    }
+    return item;
+  }
+
+  function render() {
+    const q = filter.value.trim().toLowerCase();
+    const match = (t) => !q || [t.entry.name, t.entry.value, t.entry.alias || ""].some((s) => s.toLowerCase().includes(q));
+    root.replaceChildren();
+    let section;
+    for (const group of groups) {
+      const tokens = group.tokens.filter(match);
+      if (!tokens.length) { continue; }
+      if (group.section !== section) {
+        section = group.section;
+        root.append(el("h2", "", group.title));
+      }
+      if (group.name) { root.append(el("h3", "", group.name)); }
+      const container = el("div", group.section === "color" ? "grid" : "list");
+      tokens.forEach((t) => container.append(renderToken(group.section, t)));
+      root.append(container);
+    }
+    if (!root.children.length) {
+      root.append(el("p", "empty", groups.length ? "没有匹配的 token" : "没有已索引的 design token"));
+    }
+  }
+
+  filter.addEventListener("input", render);
+  window.addEventListener("message", (e) => {
+    if (e.data.type === "tokens") {
+      groups = e.data.groups;
+      render();
+    }
+  });
+  vscode.postMessage({ type: "ready" });
+</script>
+</body>
+</html>`;
+}
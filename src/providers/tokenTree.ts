@@ -0,0 +1,243 @@
+// src/providers/tokenTree.ts
+// token 浏览器：活动栏中按 文件 → block（@theme / :root / [data-theme]）→ 类别 分组展示所有 token，支持过滤、跳转、复制与插入
+import * as vscode from "vscode";
+import { TokenIndex, TokenHit, FileInfo } from "../core/indexer";
+import { categoryOfToken, TokenCategory } from "../core/category";
+import { normalizeColor } from "../core/color";
+import { replaceWithVar } from "../core/replace";
+import { describeTokenSource, insertTokenHit, revealTokenHit } from "./lookup";
+
+export const TOKEN_TREE_VIEW = "css-value2design-token.tokenTree";
+
+// 有过滤条件时为 true，用于切换标题栏中的清除按钮
+const FILTERED_CONTEXT = "css-value2design-token.tokenTreeFiltered";
+
+const CATEGORY_ICONS: Record<TokenCategory, string> = {
+  color: "symbol-color",
+  spacing: "symbol-ruler",
+  radius: "circle-large-outline",
+  shadow: "color-mode",
+  other: "symbol-constant",
+};
+
+type TokenTreeNode =
+  | { kind: "file"; info: FileInfo; tokens: ResolvedToken[] }
+  | { kind: "block"; label: string; tokens: ResolvedToken[] }
+  | { kind: "category"; category: TokenCategory; tokens: ResolvedToken[] }
+  | { kind: "token"; token: ResolvedToken };
+
+type ResolvedToken = {
+  hit: TokenHit;
+  value: string;         // 沿 var() 引用链解析后的最终值
+  category: TokenCategory;
+};
+
+export class TokenTreeProvider implements vscode.TreeDataProvider<TokenTreeNode> {
+  private changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+  private filter = "";
+
+  constructor(private index: TokenIndex) {}
+
+  getFilter(): string {
+    return this.filter;
+  }
+
+  /**
+   * 按变量名、值、解析值或别名过滤（不区分大小写），空字符串清除过滤
+   */
+  setFilter(filter: string) {
+    this.filter = filter.trim().toLowerCase();
+    this.refresh();
+  }
+
+  refresh() {
+    this.changeEmitter.fire();
+  }
+
+  getChildren(node?: TokenTreeNode): TokenTreeNode[] {
+    if (!node) {
+      return this.index.getAllFileInfos()
+        .map((info) => ({ kind: "file" as const, info, tokens: this.resolveTokens(info.path) }))
+        .filter((n) => n.tokens.length)
+        .sort((a, b) => describeFile(a.info).localeCompare(describeFile(b.info)));
+    }
+    switch (node.kind) {
+      case "file":
+        return groupBy(node.tokens, (t) => blockLabel(t.hit))
+          .map(([label, tokens]) => ({ kind: "block" as const, label, tokens }));
+      case "block":
+        return groupBy(node.tokens, (t) => t.category)
+          .map(([category, tokens]) => ({ kind: "category" as const, category, tokens }));
+      case "category":
+        return node.tokens.map((token) => ({ kind: "token" as const, token }));
+      default:
+        return [];
+    }
+  }
+
+  getTreeItem(node: TokenTreeNode): vscode.TreeItem {
+    // 过滤时展开所有分组，直接看到匹配的 token
+    const collapsed = this.filter
+      ? vscode.TreeItemCollapsibleState.Expanded
+      : vscode.TreeItemCollapsibleState.Collapsed;
+    switch (node.kind) {
+      case "file": {
+        const item = new vscode.TreeItem(describeFile(node.info), collapsed);
+        item.description = `${node.tokens.length} tokens`;
+        item.tooltip = [node.info.path, node.info.comment].filter(Boolean).join("\n");
+        item.iconPath = new vscode.ThemeIcon(node.info.package ? "package" : "file-code");
+        return item;
+      }
+      case "block": {
+        const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+        item.description = `${node.tokens.length}`;
+        item.iconPath = new vscode.ThemeIcon("symbol-namespace");
+        return item;
+      }
+      case "category": {
+        const item = new vscode.TreeItem(node.category, collapsed);
+        item.description = `${node.tokens.length}`;
+        item.iconPath = new vscode.ThemeIcon(CATEGORY_ICONS[node.category]);
+        return item;
+      }
+      case "token":
+        return this.createTokenItem(node.token);
+    }
+  }
+
+  // 同一文件中的 token 按定义顺序排列，过滤后没有 token 的文件 / block / 类别不显示
+  private resolveTokens(file: string): ResolvedToken[] {
+    return [...this.index.getFileTokens(file)]
+      .sort((a, b) => a.offset - b.offset)
+      .map((hit) => {
+        const { value } = this.index.resolve(hit);
+        return { hit, value, category: categoryOfToken(hit.name, value) };
+      })
+      .filter((t) => !this.filter || [t.hit.name, t.hit.value, t.value, t.hit.alias ?? ""]
+        .some((s) => s.toLowerCase().includes(this.filter)));
+  }
+
+  // --color-primary  #1e90ff · primary → --brand-500
+  private createTokenItem({ hit, value, category }: ResolvedToken): vscode.TreeItem {
+    const item = new vscode.TreeItem(hit.name, vscode.TreeItemCollapsibleState.None);
+    item.description = [
+      value,
+      hit.alias ? `· ${hit.alias}` : "",
+      hit.referencedVar ? `→ ${hit.referencedVar}` : "",
+    ].filter(Boolean).join(" ");
+    const color = category === "color" ? normalizeColor(value) : null;
+    item.iconPath = color ? colorSwatch(color) : new vscode.ThemeIcon(CATEGORY_ICONS[category]);
+    item.tooltip = new vscode.MarkdownString(
+      [
+        `\`${hit.name}: ${hit.value}\``,
+        hit.value !== value ? `\n\n解析值: \`${value}\`` : "",
+        hit.alias ? `\n\n别名: \`${hit.alias}\`${hit.pattern ? ` 模式: \`${hit.pattern}\`` : ""}` : "",
+        `\n\n${describeTokenSource(hit)}`,
+      ].join(""),
+    );
+    // 有别名时多出复制别名的菜单
+    item.contextValue = hit.alias ? "token.alias" : "token";
+    item.command = { command: "css-value2design-token.revealToken", title: "跳转到定义", arguments: [hit] };
+    return item;
+  }
+}
+
+/**
+ * 活动栏中的 token 浏览器：创建视图并注册过滤、跳转、复制与插入命令，索引变化时刷新
+ */
+export class TokenTreeView implements vscode.Disposable {
+  private provider: TokenTreeProvider;
+  private view: vscode.TreeView<TokenTreeNode>;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(index: TokenIndex) {
+    this.provider = new TokenTreeProvider(index);
+    this.view = vscode.window.createTreeView(TOKEN_TREE_VIEW, { treeDataProvider: this.provider, showCollapseAll: true });
+    this.disposables.push(
+      this.view,
+      index.onDidChange(() => this.provider.refresh()),
+      vscode.commands.registerCommand("css-value2design-token.filterTokenTree", () => this.promptFilter()),
+      vscode.commands.registerCommand("css-value2design-token.clearTokenTreeFilter", () => this.setFilter("")),
+      vscode.commands.registerCommand("css-value2design-token.revealToken", (hit: TokenHit) => revealTokenHit(hit)),
+      vscode.commands.registerCommand("css-value2design-token.copyTokenVar", (node: TokenTreeNode) =>
+        this.copy(node, (hit) => replaceWithVar(hit.name))),
+      vscode.commands.registerCommand("css-value2design-token.copyTokenAlias", (node: TokenTreeNode) =>
+        this.copy(node, (hit) => hit.alias)),
+      vscode.commands.registerCommand("css-value2design-token.insertToken", (node: TokenTreeNode) => this.insert(node)),
+    );
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private async promptFilter() {
+    const filter = await vscode.window.showInputBox({
+      title: "过滤 tokens",
+      prompt: "按变量名、值或别名过滤，留空清除过滤",
+      value: this.provider.getFilter(),
+    });
+    if (filter !== undefined) { this.setFilter(filter); }
+  }
+
+  private setFilter(filter: string) {
+    this.provider.setFilter(filter);
+    this.view.description = this.provider.getFilter() || undefined;
+    vscode.commands.executeCommand("setContext", FILTERED_CONTEXT, !!this.provider.getFilter());
+  }
+
+  private async copy(node: TokenTreeNode, text: (hit: TokenHit) => string | undefined) {
+    if (node?.kind !== "token") { return; }
+    const value = text(node.token.hit);
+    if (!value) { return; }
+    await vscode.env.clipboard.writeText(value);
+    vscode.window.setStatusBarMessage(`已复制 ${value}`, 2000);
+  }
+
+  // 插入到最近活动的编辑器的光标处，有选中内容时替换选中内容（与调色板相同的替换规则）
+  private async insert(node: TokenTreeNode) {
+    if (node?.kind !== "token") { return; }
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+      vscode.window.showWarningMessage("没有打开的编辑器");
+      return;
+    }
+    await insertTokenHit(editor, node.token.hit);
+  }
+}
+
+// ---------- 辅助函数 ----------
+
+function describeFile(info: FileInfo): string {
+  return info.package
+    ? `${info.package} › ${info.path.split(/[\\/]/).pop()}`
+    : vscode.workspace.asRelativePath(info.path);
+}
+
+/**
+ * token 所在的 block：@theme / @theme inline / :root / [data-theme=dark] @media (...)；
+ * JSON、JS 主题对象与预处理器变量没有选择器，归为顶层
+ */
+function blockLabel(hit: TokenHit): string {
+  if (!hit.selector) { return "顶层"; }
+  const selector = hit.source === "theme" ? `@${hit.selector}` : hit.selector;
+  return hit.media ? `${selector} @media ${hit.media}` : selector;
+}
+
+// 保持首次出现的顺序分组
+function groupBy<K, T>(items: T[], key: (item: T) => K): [K, T[]][] {
+  const groups = new Map<K, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) { group.push(item); } else { groups.set(k, [item]); }
+  }
+  return [...groups];
+}
+
+// 颜色 token 的图标：以解析后的颜色填充的圆角方块
+function colorSwatch(hex: string): vscode.Uri {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16"><rect x="2" y="2" width="12" height="12" rx="2" fill="${hex}" stroke="#8888" /></svg>`;
+  return vscode.Uri.parse(`data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`);
+}
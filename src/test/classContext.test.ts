@@ -0,0 +1,32 @@
+import * as assert from "assert";
+import { isInClassList } from "../core/classContext";
+
+// | 标记光标位置
+function check(source: string, helpers?: string[]): boolean {
+  const offset = source.indexOf("|");
+  return isInClassList(source.replace("|", ""), offset, helpers);
+}
+
+suite("Class Context Test Suite", () => {
+  test("should recognise class attributes and @apply", () => {
+    assert.strictEqual(check(`<div class="p-4 bg-[#1e|90ff]">`), true);
+    assert.strictEqual(check(`<div className='p-4 bg-[#1e|90ff]'>`), true);
+    assert.strictEqual(check(`<div :class="{ 'bg-[#1e|90ff]': active }">`), true);
+    assert.strictEqual(check(`<div className={active ? "bg-[#1e|90ff]" : ""}>`), true);
+    assert.strictEqual(check(`.btn {\n  @apply p-4 bg-[#1e|90ff];\n}`), true);
+    assert.strictEqual(check(`<div id="bg-[#1e|90ff]">`), false);
+    assert.strictEqual(check(`.btn { color: #1e|90ff; }`), false);
+  });
+
+  test("should recognise helper calls and tagged templates", () => {
+    assert.strictEqual(check(`cn("p-4", active && "bg-[#1e|90ff]")`), true);
+    assert.strictEqual(check(`clsx({ "bg-[#1e|90ff]": active })`), true);
+    assert.strictEqual(
+      check(`const button = cva("p-4", {\n  variants: {\n    tone: { brand: "bg-[#1e|90ff]" },\n  },\n});`),
+      true,
+    );
+    assert.strictEqual(check("const card = tw`\n  p-4 bg-[#1e|90ff]\n`;"), true);
+    assert.strictEqual(check(`t("bg-[#1e|90ff]")`), false);
+    assert.strictEqual(check(`t("bg-[#1e|90ff]")`, ["t"]), true);
+  });
+});
@@ -0,0 +1,112 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+import { TokenIndex } from "../core/indexer";
+import { detectContext, TokenCompletionProvider } from "../providers/completion";
+import { findDeclarationContext } from "../core/declarationContext";
+
+// | 标记光标位置
+function context(source: string, languageId = "css") {
+  const offset = source.indexOf("|");
+  return detectContext(source.replace("|", ""), offset, languageId);
+}
+
+suite("Completion Context Test Suite", () => {
+  test("should detect declaration values", () => {
+    assert.deepStrictEqual(context(`.btn {\n  color: #1e|\n}`), { kind: "declaration", property: "color", replaceStart: 9 });
+    assert.deepStrictEqual(context(`.btn { padding: 0 1| }`), { kind: "declaration", property: "padding", replaceStart: 18 });
+    assert.deepStrictEqual(context(`:root { --gap: | }`), { kind: "declaration", property: "--gap", replaceStart: 15 });
+    // 嵌套规则与 @media 中的声明
+    assert.strictEqual(context(`@media (min-width: 768px) {\n  .card { margin: | }\n}`)?.kind, "declaration");
+    assert.strictEqual(context(`.card {\n  &:hover {\n    -webkit-box-shadow: |\n  }\n}`, "scss")?.kind, "declaration");
+  });
+
+  test("should detect var( and class lists", () => {
+    assert.deepStrictEqual(context(`.btn { color: var(--co| }`), { kind: "var", replaceStart: 18 });
+    assert.deepStrictEqual(context(`<div class="p-4 bg-|">`, "html"), { kind: "class", prefix: "bg", replaceStart: 19 });
+    assert.deepStrictEqual(context(`<div class="hover:!text-[|">`, "html"), { kind: "class", prefix: "text", replaceStart: 24 });
+  });
+
+  test("should not treat selectors, comments or prose as declarations", () => {
+    assert.strictEqual(context(`a:h|`), undefined);
+    assert.strictEqual(context(`li:first-|`), undefined);
+    assert.strictEqual(context(`@media (min-width: 76|`), undefined);
+    assert.strictEqual(context(`.list {\n  li:first-|\n}`, "scss"), undefined);
+    assert.strictEqual(context(`.btn { /* note: use | */ }`), undefined);
+    assert.strictEqual(context(`.btn { content: "a: |" }`), undefined);
+    assert.strictEqual(context(`<p>Note: th|</p>`, "html"), undefined);
+  });
+
+  test("should detect declarations in style attributes and <style> blocks", () => {
+    assert.deepStrictEqual(context(`<div style="margin: 0; color: |">`, "html"), { kind: "declaration", property: "color", replaceStart: 30 });
+    assert.strictEqual(context(`<template>\n  <p>Note: th|</p>\n</template>`, "vue"), undefined);
+    assert.strictEqual(context(`<template></template>\n<style>\n.a { color: | }`, "vue")?.kind, "declaration");
+    assert.strictEqual(context(`<style>.a { color: red }</style>\n<p>Note: th|</p>`, "html"), undefined);
+  });
+
+  test("should skip semicolons inside url()", () => {
+    const css = `.a { background: url(data:image/png;base64,AAA) no-`;
+    assert.deepStrictEqual(findDeclarationContext(css, css.length), { property: "background", valueStart: css.length - 3 });
+  });
+});
+
+suite("Completion Provider Test Suite", () => {
+  let tempDir: string;
+  let originalGetConfiguration: any;
+  let originalWorkspaceFolders: any;
+
+  suiteSetup(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "completion-test-"));
+    originalGetConfiguration = vscode.workspace.getConfiguration;
+    originalWorkspaceFolders = vscode.workspace.workspaceFolders;
+    const config: Record<string, unknown> = { sources: ["**/*.css"] };
+    vscode.workspace.getConfiguration = (section?: string) => {
+      if (section === "css-value2design-token") {
+        return {
+          get: (key: string, defaultValue?: unknown) => (key in config ? config[key] : defaultValue),
+          has: () => true,
+          inspect: () => undefined,
+          update: () => Promise.resolve(),
+        } as any;
+      }
+      return originalGetConfiguration(section);
+    };
+    Object.defineProperty(vscode.workspace, "workspaceFolders", {
+      value: [{ uri: vscode.Uri.file(tempDir), name: "test-workspace", index: 0 }],
+      configurable: true,
+    });
+  });
+
+  suiteTeardown(async () => {
+    vscode.workspace.getConfiguration = originalGetConfiguration;
+    Object.defineProperty(vscode.workspace, "workspaceFolders", {
+      value: originalWorkspaceFolders,
+      configurable: true,
+    });
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("should expose color tokens as string documentation so VS Code renders a swatch", async () => {
+    await fs.writeFile(path.join(tempDir, "tokens.css"), `:root {
+  --blue: rgb(30, 144, 255);
+  --color-primary: var(--blue);
+  --spacing-md: 16px;
+}
+`);
+    const index = new TokenIndex();
+    await index.build();
+    const file = path.join(tempDir, "card.css");
+    await fs.writeFile(file, ".card {\n  color: \n}\n");
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(file));
+
+    const items = new TokenCompletionProvider(index).provideCompletionItems(document, new vscode.Position(1, 9))!;
+    const primary = items.find((item) => (item.label as vscode.CompletionItemLabel).label === "--color-primary")!;
+    assert.strictEqual(primary.kind, vscode.CompletionItemKind.Color);
+    assert.strictEqual(primary.documentation, "#1e90ff");
+    assert.ok(primary.detail?.startsWith("--color-primary: var(--blue) → rgb("), primary.detail);
+    // color 属性只补全颜色 token
+    assert.deepStrictEqual(items.map((item) => (item.label as vscode.CompletionItemLabel).label).sort(), ["--blue", "--color-primary"]);
+  });
+});
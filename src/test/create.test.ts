@@ -0,0 +1,62 @@
+import * as assert from "assert";
+import { detectValueCategory } from "../core/category";
+import { canInsertTokenInto, planTokenInsertion, suggestTokenNames, isValidTokenName } from "../core/create";
+
+suite("Create Token Test Suite", () => {
+  test("should detect value category", () => {
+    assert.strictEqual(detectValueCategory("#1E90FF"), "color");
+    assert.strictEqual(detectValueCategory("rgb(30, 144, 255)"), "color");
+    assert.strictEqual(detectValueCategory("16px", "padding"), "spacing");
+    assert.strictEqual(detectValueCategory("8px", "border-radius"), "radius");
+    assert.strictEqual(detectValueCategory("0 1px 2px rgba(0,0,0,.1)"), "shadow");
+    assert.strictEqual(detectValueCategory("bold"), "other");
+  });
+
+  test("should suggest names by category and skip existing names", () => {
+    assert.deepStrictEqual(suggestTokenNames("#1E90FF", "color"), ["--color-1e90ff", "--color-new"]);
+    assert.deepStrictEqual(suggestTokenNames("1.5rem", "spacing"), ["--spacing-1_5rem", "--spacing-new"]);
+
+    const existing = new Set(["--radius-8", "--radius-new", "--radius-new-2"]);
+    assert.deepStrictEqual(
+      suggestTokenNames("8px", "radius", (n) => existing.has(n)),
+      ["--radius-8-2", "--radius-new-3"],
+    );
+  });
+
+  test("should validate token names", () => {
+    assert.strictEqual(isValidTokenName("--color-primary"), true);
+    assert.strictEqual(isValidTokenName("color-primary"), false);
+    assert.strictEqual(isValidTokenName("--color primary"), false);
+  });
+
+  test("should only offer brace-syntax stylesheets as insertion targets", () => {
+    for (const file of ["tokens.css", "theme.pcss", "_vars.scss", "theme.less"]) {
+      assert.strictEqual(canInsertTokenInto(file), true, file);
+    }
+    for (const file of ["tokens.json", "theme.ts", "tailwind.config.js", "theme.styl", "vars.sass"]) {
+      assert.strictEqual(canInsertTokenInto(file), false, file);
+    }
+  });
+
+  test("should append declaration to an existing block", () => {
+    const css = `:root {\n    --a: 1px;\n}\n\n@theme inline {\n  --color-a: var(--a)\n}\n`;
+
+    const root = planTokenInsertion(css, ":root", "--b", "2px");
+    assert.strictEqual(root.created, false);
+    const rootResult = css.slice(0, root.offset) + root.text + css.slice(root.offset);
+    assert.ok(rootResult.startsWith(`:root {\n    --a: 1px;\n    --b: 2px;\n}`));
+
+    // 最后一条声明没有分号时需要补上
+    const inline = planTokenInsertion(css, "@theme inline", "--color-b", "#fff");
+    const inlineResult = css.slice(0, inline.offset) + inline.text + css.slice(inline.offset);
+    assert.ok(inlineResult.includes(`--color-a: var(--a);\n  --color-b: #fff;\n}`));
+  });
+
+  test("should create the block when it does not exist", () => {
+    const css = `:root {\n  --a: 1px;\n}`;
+    const insertion = planTokenInsertion(css, "@theme", "--color-b", "#fff");
+    assert.strictEqual(insertion.created, true);
+    assert.strictEqual(insertion.offset, css.length);
+    assert.strictEqual(insertion.text, `\n\n@theme {\n  --color-b: #fff;\n}\n`);
+  });
+});
@@ -0,0 +1,43 @@
+import * as assert from "assert";
+import { designTokenName, parseDesignTokens } from "../core/designTokens";
+
+suite("Design Tokens Test Suite", () => {
+  test("should parse DTCG tokens with inherited types and aliases", () => {
+    const json = JSON.stringify({
+      color: {
+        $type: "color",
+        blue: { 500: { $value: "#1e90ff", $description: "品牌蓝" } },
+        primary: { $value: "{color.blue.500}" },
+      },
+      spacing: { md: { $type: "dimension", $value: { value: 16, unit: "px" } } },
+      shadow: {
+        sm: {
+          $type: "shadow",
+          $value: { color: "{color.blue.500}", offsetX: "0px", offsetY: "1px", blur: "2px", spread: "0px" },
+        },
+      },
+    }, null, 2);
+
+    const tokens = parseDesignTokens(json);
+    assert.deepStrictEqual(
+      tokens.map(t => [t.name, t.value, t.type]),
+      [
+        ["--color-blue-500", "#1e90ff", "color"],
+        ["--color-primary", "var(--color-blue-500)", "color"],
+        ["--spacing-md", "16px", "dimension"],
+        ["--shadow-sm", "0px 1px 2px 0px var(--color-blue-500)", "shadow"],
+      ],
+    );
+    assert.strictEqual(json.substring(tokens[1].offset).startsWith('"primary"'), true);
+  });
+
+  test("should parse Style Dictionary tokens and apply naming", () => {
+    const json = JSON.stringify({ size: { fontBase: { value: "14px", type: "dimension" } } });
+    const [token] = parseDesignTokens(json, { prefix: "ds" });
+    assert.strictEqual(token.name, "--ds-size-font-base");
+    assert.strictEqual(token.value, "14px");
+
+    assert.strictEqual(designTokenName(["color", "blue", "500"], { separator: "_" }), "--color_blue_500");
+    assert.deepStrictEqual(parseDesignTokens("{ invalid"), []);
+  });
+});
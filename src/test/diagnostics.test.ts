@@ -0,0 +1,156 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+import { TokenIndex } from "../core/indexer";
+import { DIAGNOSTIC_SOURCE, TokenDiagnostics, TokenQuickFixProvider } from "../providers/diagnostics";
+
+const TOKENS_CSS = `:root {
+  --surface: #ffffff;
+  --text: #111111;
+}
+
+[data-theme=dark] {
+  --surface: #111111;
+}
+`;
+
+// 略大于诊断的防抖间隔
+const UPDATE_WAIT = 400;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+suite("Diagnostics Test Suite", () => {
+  let tempDir: string;
+  let tokenIndex: TokenIndex;
+  let diagnostics: TokenDiagnostics | undefined;
+  let originalGetConfiguration: any;
+  let originalWorkspaceFolders: any;
+  let config: Record<string, unknown>;
+
+  suiteSetup(() => {
+    originalGetConfiguration = vscode.workspace.getConfiguration;
+    originalWorkspaceFolders = vscode.workspace.workspaceFolders;
+  });
+
+  suiteTeardown(() => {
+    vscode.workspace.getConfiguration = originalGetConfiguration;
+    Object.defineProperty(vscode.workspace, "workspaceFolders", {
+      value: originalWorkspaceFolders,
+      configurable: true,
+    });
+  });
+
+  setup(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "diagnostics-test-"));
+    config = {
+      sources: ["**/*.css"],
+      "index.classWhitelist": ["^\\[data-theme="],
+      "diagnostics.severity": "warning",
+    };
+    vscode.workspace.getConfiguration = (section?: string) => {
+      if (section === "css-value2design-token") {
+        return {
+          get: (key: string, defaultValue?: unknown) => (key in config ? config[key] : defaultValue),
+          has: () => true,
+          inspect: () => undefined,
+          update: () => Promise.resolve(),
+        } as any;
+      }
+      return originalGetConfiguration(section);
+    };
+    Object.defineProperty(vscode.workspace, "workspaceFolders", {
+      value: [{ uri: vscode.Uri.file(tempDir), name: "test-workspace", index: 0 }],
+      configurable: true,
+    });
+
+    await fs.writeFile(path.join(tempDir, "tokens.css"), TOKENS_CSS);
+    tokenIndex = new TokenIndex();
+    await tokenIndex.build();
+  });
+
+  teardown(async () => {
+    diagnostics?.dispose();
+    diagnostics = undefined;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function openDocument(name: string, text: string): Promise<vscode.TextDocument> {
+    const file = path.join(tempDir, name);
+    await fs.writeFile(file, text);
+    return vscode.workspace.openTextDocument(vscode.Uri.file(file));
+  }
+
+  function tokenDiagnostics(document: vscode.TextDocument): vscode.Diagnostic[] {
+    return vscode.languages.getDiagnostics(document.uri).filter((d) => d.source === DIAGNOSTIC_SOURCE);
+  }
+
+  test("should report hard-coded values with range and configured severity", async () => {
+    diagnostics = new TokenDiagnostics(tokenIndex);
+    const document = await openDocument("card.css", `.card {\n  color: #111111;\n  margin: 3px;\n}\n`);
+    diagnostics.update(document);
+
+    const [diagnostic, ...rest] = tokenDiagnostics(document);
+    assert.strictEqual(rest.length, 0);
+    assert.deepStrictEqual(
+      [diagnostic.range.start.line, diagnostic.range.start.character, diagnostic.range.end.line, diagnostic.range.end.character],
+      [1, 9, 1, 16],
+    );
+    assert.strictEqual(diagnostic.severity, vscode.DiagnosticSeverity.Warning);
+    assert.ok(diagnostic.message.includes("--text"));
+
+    config["diagnostics.enabled"] = false;
+    diagnostics.update(document);
+    assert.deepStrictEqual(tokenDiagnostics(document), []);
+  });
+
+  test("should not report non-design values even when a token has the same value", async () => {
+    await fs.writeFile(path.join(tempDir, "z-index.css"), `:root {\n  --z-1: 1;\n  --weight-bold: 700;\n}\n`);
+    await tokenIndex.build();
+    diagnostics = new TokenDiagnostics(tokenIndex);
+    const document = await openDocument("modal.css", `.modal {\n  z-index: 1;\n  font-weight: 700;\n  color: #111111;\n}\n`);
+    diagnostics.update(document);
+    assert.deepStrictEqual(tokenDiagnostics(document).map((d) => document.getText(d.range)), ["#111111"]);
+  });
+
+  test("should debounce opened documents and refresh when the index changes", async () => {
+    diagnostics = new TokenDiagnostics(tokenIndex);
+    const document = await openDocument("panel.css", `.panel {\n  background: #111111;\n}\n`);
+    assert.deepStrictEqual(tokenDiagnostics(document), [], "防抖期间不应更新诊断");
+
+    await wait(UPDATE_WAIT);
+    assert.strictEqual(tokenDiagnostics(document).length, 1);
+
+    // token 的值变化后索引触发 onDidChange，已打开文档的诊断立即刷新
+    const tokensFile = path.join(tempDir, "tokens.css");
+    await fs.writeFile(tokensFile, TOKENS_CSS.replace(/#111111/g, "#222222"));
+    await tokenIndex.onFilesChange([tokensFile]);
+    assert.deepStrictEqual(tokenDiagnostics(document), []);
+  });
+
+  test("should order quick fixes by preference within the matched theme", async () => {
+    diagnostics = new TokenDiagnostics(tokenIndex);
+    const document = await openDocument("button.css", `.button {\n  color: #111111;\n  background: #ffffff;\n}\n`);
+    diagnostics.update(document);
+    const provider = new TokenQuickFixProvider(tokenIndex);
+    const fixes = (value: string) => {
+      const diagnostic = tokenDiagnostics(document).find((d) => document.getText(d.range) === value)!;
+      return provider
+        .provideCodeActions(document, diagnostic.range, { diagnostics: [diagnostic] } as any)
+        .map((action) => [action.title.split(" ")[1], action.isPreferred]);
+    };
+
+    // 没有配置 theme.match 时列出所有主题中的定义，:root 中的定义优先
+    assert.deepStrictEqual(fixes("#111111"), [["var(--text)", true], ["var(--surface)", false]]);
+
+    // 默认主题下 --surface 是 #ffffff，暗色定义不参与匹配
+    config["theme.match"] = "default";
+    assert.deepStrictEqual(fixes("#111111"), [["var(--text)", true]]);
+
+    // 暗色主题覆盖了 :root 中的 --surface，#ffffff 不再对应任何 token
+    config["theme.match"] = "dark";
+    assert.deepStrictEqual(fixes("#111111"), [["var(--text)", true], ["var(--surface)", false]]);
+    assert.deepStrictEqual(fixes("#ffffff"), []);
+  });
+});
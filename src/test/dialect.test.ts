@@ -0,0 +1,54 @@
+import * as assert from "assert";
+import { extractDialectVariables, isTokenUsableIn, maskComments } from "../core/dialect";
+import type { TokenHit } from "../core/indexer";
+import { isTokenReplaceableIn, replaceWithVar } from "../core/replace";
+import { deriveConfigUtility } from "../core/tailwind";
+
+suite("Dialect Test Suite", () => {
+  test("should extract top-level variables per dialect", () => {
+    const scss = maskComments(`$primary: #1e90ff; // 主色
+@include theme($mode: dark);
+.a { $local: 1px; }`);
+    assert.deepStrictEqual(
+      extractDialectVariables(scss, "scss").map(v => [v.name, v.value]),
+      [["$primary", "#1e90ff"]],
+    );
+    assert.deepStrictEqual(
+      extractDialectVariables("@primary: #1e90ff;\n@media (min-width: 10px) {}", "less").map(v => v.name),
+      ["@primary"],
+    );
+    assert.deepStrictEqual(
+      extractDialectVariables("$gap = 4px\nbody\n  $inner = 2px", "stylus").map(v => v.name),
+      ["$gap"],
+    );
+  });
+
+  test("should only use dialect variables in matching files", () => {
+    assert.strictEqual(isTokenUsableIn("--color-primary", "a.css"), true);
+    assert.strictEqual(isTokenUsableIn("$primary", "a.scss"), true);
+    assert.strictEqual(isTokenUsableIn("$primary", "a.css"), false);
+    assert.strictEqual(isTokenUsableIn("@primary", "a.less"), true);
+    assert.strictEqual(isTokenUsableIn("@primary", "a.scss"), false);
+    assert.strictEqual(replaceWithVar("$primary"), "$primary");
+    assert.strictEqual(isTokenUsableIn("theme.colors.primary", "Button.tsx"), true);
+    assert.strictEqual(isTokenUsableIn("theme.colors.primary", "a.css"), false);
+    assert.strictEqual(isTokenUsableIn("theme(colors.primary)", "a.scss"), true);
+    assert.strictEqual(replaceWithVar("theme(colors.primary)"), "theme(colors.primary)");
+  });
+
+  test("should only use tokens that produce valid class names inside utilities", () => {
+    const hit = (name: string, extra: Partial<TokenHit> = {}): TokenHit => ({ name, value: "#1e90ff", file: "/a", offset: 0, ...extra });
+    // 类名中：自定义属性可以写成 bg-[var(--x)]，主题对象只有推导出工具类（tailwind.config）或有别名时可用
+    assert.strictEqual(isTokenReplaceableIn(hit("--brand"), "Button.tsx", true), true);
+    assert.strictEqual(isTokenReplaceableIn(hit("theme.colors.primary"), "Button.tsx", true), false);
+    assert.strictEqual(isTokenReplaceableIn(hit("$primary"), "a.scss", true), false);
+    assert.strictEqual(
+      isTokenReplaceableIn(hit("theme(colors.primary)", { utility: deriveConfigUtility(["colors", "primary"]) }), "a.scss", true),
+      true,
+    );
+    assert.strictEqual(isTokenReplaceableIn(hit("theme.colors.primary", { alias: "primary" }), "Button.tsx", true), true);
+    // 其他位置与 isTokenUsableIn 一致
+    assert.strictEqual(isTokenReplaceableIn(hit("theme.colors.primary"), "Button.tsx", false), true);
+    assert.strictEqual(isTokenReplaceableIn(hit("$primary"), "a.scss", false), true);
+  });
+});
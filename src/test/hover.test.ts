@@ -0,0 +1,78 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+import { TokenIndex } from "../core/indexer";
+import { TokenHoverProvider } from "../providers/hover";
+
+suite("Hover Provider Test Suite", () => {
+  let tempDir: string;
+  let originalGetConfiguration: any;
+  let originalWorkspaceFolders: any;
+  let originalOpenTextDocument: any;
+
+  suiteSetup(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "hover-test-"));
+    originalGetConfiguration = vscode.workspace.getConfiguration;
+    originalWorkspaceFolders = vscode.workspace.workspaceFolders;
+    originalOpenTextDocument = vscode.workspace.openTextDocument;
+    const config: Record<string, unknown> = { sources: ["**/*.css"], "index.classWhitelist": ["^\\[data-theme="] };
+    vscode.workspace.getConfiguration = (section?: string) => {
+      if (section === "css-value2design-token") {
+        return {
+          get: (key: string, defaultValue?: unknown) => (key in config ? config[key] : defaultValue),
+          has: () => true,
+          inspect: () => undefined,
+          update: () => Promise.resolve(),
+        } as any;
+      }
+      return originalGetConfiguration(section);
+    };
+    Object.defineProperty(vscode.workspace, "workspaceFolders", {
+      value: [{ uri: vscode.Uri.file(tempDir), name: "test-workspace", index: 0 }],
+      configurable: true,
+    });
+  });
+
+  suiteTeardown(async () => {
+    vscode.workspace.getConfiguration = originalGetConfiguration;
+    vscode.workspace.openTextDocument = originalOpenTextDocument;
+    Object.defineProperty(vscode.workspace, "workspaceFolders", {
+      value: originalWorkspaceFolders,
+      configurable: true,
+    });
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("should link each definition to its line without opening the defining files", async () => {
+    const tokensFile = path.join(tempDir, "tokens.css");
+    await fs.writeFile(tokensFile, `:root {\n  --surface: #ffffff;\n}\n\n[data-theme=dark] {\n  --surface: #111111;\n}\n`);
+    const file = path.join(tempDir, "card.css");
+    await fs.writeFile(file, ".card {\n  color: var(--surface);\n}\n");
+    const index = new TokenIndex();
+    await index.build();
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(file));
+
+    const opened: string[] = [];
+    vscode.workspace.openTextDocument = (async (uri: vscode.Uri) => {
+      opened.push(uri.fsPath);
+      return originalOpenTextDocument(uri);
+    }) as any;
+    const provider = new TokenHoverProvider(index);
+    const links = async () => {
+      const hover = await provider.provideHover(document, new vscode.Position(1, 16));
+      const value = (hover!.contents[0] as vscode.MarkdownString).value;
+      return [...value.matchAll(/#L(\d+)\)/g)].map((m) => Number(m[1]));
+    };
+    assert.deepStrictEqual(await links(), [2, 6]);
+    assert.deepStrictEqual(opened, []);
+
+    // 定义文件变化并重新索引后，按新的内容计算行号
+    await fs.writeFile(tokensFile, `/* tokens */\n:root {\n  --surface: #ffffff;\n}\n\n[data-theme=dark] {\n  --surface: #111111;\n}\n`);
+    const time = new Date(Date.now() + 10_000);
+    await fs.utimes(tokensFile, time, time);
+    await index.onFilesChange([tokensFile]);
+    assert.deepStrictEqual(await links(), [3, 7]);
+  });
+});
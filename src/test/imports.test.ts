@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+import { collectImportGraph, extractImports } from "../core/imports";
+
+suite("Style Imports Test Suite", () => {
+  test("should extract import targets and ignore conditions and remote urls", () => {
+    const css = `@import "tailwindcss" prefix(tw);
+@import url("./tokens/colors.css") layer(tokens) supports(display: grid) screen;
+@import url(https://fonts.googleapis.com/css2?family=Inter);
+/* @import "./commented.css"; */
+@use "sass:math";
+@use "./spacing" as s;
+@import "a", "b";
+@import (reference) "theme.less";
+@reference "../app.css";`;
+    assert.deepStrictEqual(extractImports(css).map(i => i.specifier), [
+      "tailwindcss", "./tokens/colors.css", "./spacing", "a", "b", "theme.less", "../app.css",
+    ]);
+  });
+
+  test("should follow relative, partial and package imports from entry files", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "imports-test-"));
+    try {
+      const write = async (file: string, content: string) => {
+        await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+        await fs.writeFile(path.join(root, file), content);
+      };
+      await write("src/globals.css", `@import "tailwindcss";\n@import "./tokens/index.css" layer(base);`);
+      await write("src/tokens/index.css", `@import "./colors.css";\n@import "../globals.css";`);
+      await write("src/tokens/colors.css", ":root { --brand: #1e90ff; }");
+      await write("src/theme.scss", `@use "partials/spacing";`);
+      await write("src/partials/_spacing.scss", "$gap: 8px;");
+      await write("node_modules/tailwindcss/package.json", JSON.stringify({
+        name: "tailwindcss",
+        exports: { ".": { import: "./dist/lib.mjs", style: "./index.css" } },
+      }));
+      await write("node_modules/tailwindcss/index.css", `@import "./theme.css" layer(theme);`);
+      await write("node_modules/tailwindcss/theme.css", "@theme default { --color-red-500: #fb2c36; }");
+
+      const globals = path.join(root, "src/globals.css");
+      const theme = path.join(root, "src/theme.scss");
+      const graph = await collectImportGraph([globals, theme]);
+      const byFile = new Map(graph.map(g => [path.relative(root, g.file).replace(/\\/g, "/"), g]));
+
+      assert.deepStrictEqual([...byFile.keys()].sort(), [
+        "node_modules/tailwindcss/index.css",
+        "node_modules/tailwindcss/theme.css",
+        "src/globals.css",
+        "src/partials/_spacing.scss",
+        "src/theme.scss",
+        "src/tokens/colors.css",
+        "src/tokens/index.css",
+      ]);
+      assert.strictEqual(byFile.get("src/tokens/colors.css")?.entry, globals);
+      assert.strictEqual(byFile.get("src/partials/_spacing.scss")?.entry, theme);
+      assert.strictEqual(byFile.get("node_modules/tailwindcss/theme.css")?.package, "tailwindcss");
+      assert.strictEqual(byFile.get("src/tokens/colors.css")?.package, undefined);
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -140,18 +140,19 @@ suite("TokenIndex Test Suite", () => {
 
     assert.strictEqual(tokenIndex.isReady(), true);
 
-    // 测试颜色值查找
+    // 测试颜色值查找（hex 与 rgb 是同一个颜色，归一化到同一个 key）
     const colorHits = tokenIndex.findByValue("#3b82f6");
-    assert.strictEqual(colorHits.length, 1);
+    assert.strictEqual(colorHits.length, 2);
     assert.strictEqual(colorHits[0].name, "--primary-color");
     assert.strictEqual(colorHits[0].value, "#3b82f6");
     assert.strictEqual(colorHits[0].selector, ":root");
     assert.strictEqual(colorHits[0].source, "root");
+    assert.strictEqual(colorHits[1].name, "--secondary-color");
 
-    // 测试 RGB 值查找（应该被归一化）
-    const rgbHits = tokenIndex.findByValue("rgb(59,130,246)");
-    assert.strictEqual(rgbHits.length, 1);
-    assert.strictEqual(rgbHits[0].name, "--secondary-color");
+    // 测试尺寸值查找（rem 按根字号 16 换算为 px）
+    const spacingHits = tokenIndex.findByValue("32px");
+    assert.strictEqual(spacingHits.length, 1);
+    assert.strictEqual(spacingHits[0].name, "--spacing-large");
   });
 
   test("should index tokens from html selector", async () => {
@@ -544,8 +545,12 @@ html {
   test("should normalize different color formats to same value", async () => {
     const cssContent = `
 :root {
-  --color-hex: #3b82f6;
-  --color-rgb: rgb(59, 130, 246);
+  --color-hex: #1E90FF;
+  --color-rgb: rgb(30, 144, 255);
+  --color-named: dodgerblue;
+  --color-hsl: hsl(209.6 100% 55.88%);
+  --color-oklch: oklch(65.2% 0.1901 253.21);
+  --color-alpha: rgb(30 144 255 / 50%);
 }
 		`;
 
@@ -554,15 +559,17 @@ html {
 
     await tokenIndex.build();
 
-    // 测试十六进制颜色
-    const hexHits = tokenIndex.findByValue("#3b82f6");
-    assert.ok(hexHits.length >= 1, "Should find hex color");
-    assert.strictEqual(hexHits[0].name, "--color-hex");
+    // 所有写法都归一化为同一个 hex key
+    const hits = tokenIndex.findByValue("#1e90ff");
+    assert.deepStrictEqual(
+      hits.map((h) => h.name),
+      ["--color-hex", "--color-rgb", "--color-named", "--color-hsl", "--color-oklch"],
+    );
 
-    // 测试RGB颜色 - RGB会被归一化为rgb(59,130,246)格式
-    const rgbHits = tokenIndex.findByValue("rgb(59,130,246)");
-    assert.ok(rgbHits.length >= 1, "Should find RGB color");
-    assert.strictEqual(rgbHits[0].name, "--color-rgb");
+    // 透明度不同的颜色不应混在一起
+    const alphaHits = tokenIndex.findByValue("#1e90ff80");
+    assert.strictEqual(alphaHits.length, 1);
+    assert.strictEqual(alphaHits[0].name, "--color-alpha");
   });
 
   test("should parse var() references correctly", async () => {
@@ -693,6 +700,28 @@ html {
     assert.strictEqual(primaryHits[0].referencedVar, "--base-color");
   });
 
+  test("should count tokens in rules nested in @theme once", async () => {
+    const cssContent = `
+@theme {
+  --base-color: #1e40af;
+}
+
+@theme {
+  :root {
+    --nested-color: #0f172a;
+  }
+}
+		`;
+
+    const testFile = path.join(tempDir, "test-theme-nested.css");
+    await fs.writeFile(testFile, cssContent);
+
+    await tokenIndex.build();
+
+    assert.strictEqual(tokenIndex.findByName("--nested-color").length, 1);
+    assert.strictEqual(tokenIndex.getFileInfo(testFile)?.tokenCount, 2);
+  });
+
   test("should find tokens by referenced variable name", async () => {
     const cssContent = `
 :root {
@@ -762,6 +791,515 @@ html {
     assert.strictEqual(allHits.length, 3, "总共应该找到 3 个相关的变量");
   });
 
+  test("should resolve var() chains per theme and find tokens by alias", async () => {
+    const cssContent = `
+:root {
+  --neutral-4: #edf0f2;
+  --color-neutral-4: var(--neutral-4);
+}
+
+[data-theme="dark"] {
+  --neutral-4: #1f2328;
+  /* @alias neutral-4 */
+  --color-neutral-4: var(--neutral-4);
+}
+		`;
+
+    const testFile = path.join(tempDir, "test-resolve.css");
+    await fs.writeFile(testFile, cssContent);
+
+    await tokenIndex.build();
+
+    const [rootHit, darkHit] = tokenIndex.findByName("--color-neutral-4");
+    assert.deepStrictEqual(tokenIndex.resolve(rootHit), {
+      value: "#edf0f2",
+      chain: ["--color-neutral-4", "--neutral-4"],
+      cyclic: false,
+    });
+    // 暗色主题下的引用优先解析到同一选择器中的定义
+    assert.strictEqual(tokenIndex.resolve(darkHit).value, "#1f2328");
+
+    const aliasHits = tokenIndex.findByAlias("neutral-4");
+    assert.strictEqual(aliasHits.length, 1);
+    assert.strictEqual(aliasHits[0].selector, '[data-theme="dark"]');
+  });
+
+  test("should find transitive references ranked by depth", async () => {
+    const cssContent = `
+:root {
+  --brand-500: #1e90ff;
+  --color-primary: var(--brand-500);
+  --button-bg: var(--color-primary);
+  --loop-a: var(--loop-b);
+  --loop-b: var(--loop-a);
+}
+		`;
+
+    const testFile = path.join(tempDir, "test-transitive.css");
+    await fs.writeFile(testFile, cssContent);
+
+    await tokenIndex.build();
+
+    const related = tokenIndex.findRelatedByValue("#1e90ff");
+    assert.deepStrictEqual(
+      related.map(r => [r.hit.name, r.depth]),
+      [["--button-bg", 2], ["--color-primary", 1], ["--brand-500", 0]],
+    );
+
+    // 循环引用不会死循环，并被标记出来
+    const loopHits = tokenIndex.findRelatedByValue("var(--loop-b)");
+    assert.deepStrictEqual(loopHits.map(r => r.hit.name), ["--loop-b", "--loop-a"]);
+    assert.strictEqual(tokenIndex.resolve(tokenIndex.findByName("--loop-a")[0]).cyclic, true);
+  });
+
+  test("should index composite var() references and fallbacks", async () => {
+    const cssContent = `
+:root {
+  --spacing: 4px;
+  --shadow-color: #00000033;
+  --gap: calc(var(--spacing) * 4);
+  --shadow-sm: 0 1px 2px var(--shadow-color);
+  --gutter: var(--spacing-xl, 20px);
+}
+		`;
+
+    const testFile = path.join(tempDir, "test-fallback.css");
+    await fs.writeFile(testFile, cssContent);
+
+    await tokenIndex.build();
+
+    assert.deepStrictEqual(tokenIndex.findByReferencedVar("--spacing").map(h => h.name), ["--gap"]);
+    assert.deepStrictEqual(tokenIndex.findByReferencedVar("--shadow-color").map(h => h.name), ["--shadow-sm"]);
+    // 组合值不参与按值的链式查找
+    assert.deepStrictEqual(tokenIndex.findRelatedByValue("#00000033").map(r => r.hit.name), ["--shadow-color"]);
+
+    const [gutter] = tokenIndex.findByFallback("20px");
+    assert.strictEqual(gutter?.name, "--gutter");
+    assert.strictEqual(gutter.referencedVar, "--spacing-xl");
+    // 引用的变量未定义时解析为回退值
+    assert.strictEqual(tokenIndex.resolve(gutter).value, "20px");
+  });
+
+  test("should derive Tailwind utilities for @theme tokens only", async () => {
+    const cssContent = `
+@theme {
+  --color-primary: #1e90ff;
+}
+
+:root {
+  --color-secondary: #ff6b6b;
+}
+		`;
+
+    const testFile = path.join(tempDir, "test-tailwind.css");
+    await fs.writeFile(testFile, cssContent);
+
+    await tokenIndex.build();
+
+    assert.strictEqual(tokenIndex.findByValue("#1e90ff")[0].utility?.key, "primary");
+    assert.strictEqual(tokenIndex.findByValue("#ff6b6b")[0].utility, undefined);
+    assert.deepStrictEqual(tokenIndex.findByUtilityClass("bg-primary").map(h => h.name), ["--color-primary"]);
+    assert.deepStrictEqual(tokenIndex.findByUtilityClass("p-primary"), []);
+  });
+
+  test("should index SCSS, Less and Stylus sources", async () => {
+    const dialectConfig = { ...mockConfig, sources: ["**/*.{scss,less,styl}"] };
+    vscode.workspace.getConfiguration = (section?: string) => {
+      if (section === "css-value2design-token") {
+        return {
+          get: (key: string) => dialectConfig[key as keyof typeof dialectConfig],
+          has: () => true,
+          inspect: () => undefined,
+          update: () => Promise.resolve(),
+        } as any;
+      }
+      return originalGetConfiguration(section);
+    };
+
+    await fs.writeFile(path.join(tempDir, "tokens.scss"), `// 色板
+$blue: #1e90ff !default;
+$primary: $blue;
+
+:root {
+  --spacing-md: 16px; // 行尾注释
+  &[data-theme="dark"] {
+    --surface: #111111;
+  }
+}
+
+.button {
+  $local: #ff0000;
+}
+`);
+    await fs.writeFile(path.join(tempDir, "tokens.less"), `@accent: #ff6b6b;
+.mixin(@color: red) { color: @color; }
+`);
+    await fs.writeFile(path.join(tempDir, "tokens.styl"), `$radius = 8px
+:root
+  --radius-md 8px
+`);
+
+    await tokenIndex.build();
+
+    assert.deepStrictEqual(tokenIndex.findRelatedByValue("#1e90ff").map(r => r.hit.name), ["$primary", "$blue"]);
+    assert.strictEqual(tokenIndex.findByValue("16px")[0]?.name, "--spacing-md");
+    assert.strictEqual(tokenIndex.findByValue("#111111")[0]?.selector, ':root[data-theme="dark"]');
+    assert.deepStrictEqual(tokenIndex.findByValue("#ff0000"), [], "规则内部的局部变量不算 token");
+    assert.deepStrictEqual(tokenIndex.findByValue("#ff6b6b").map(h => h.name), ["@accent"]);
+    assert.deepStrictEqual(tokenIndex.findByValue("8px").map(h => h.name).sort(), ["$radius", "--radius-md"]);
+  });
+
+  test("should index DTCG JSON tokens with alias references", async () => {
+    const jsonConfig = { ...mockConfig, sources: ["**/*.tokens.json"] };
+    vscode.workspace.getConfiguration = (section?: string) => {
+      if (section === "css-value2design-token") {
+        return {
+          get: (key: string) => jsonConfig[key as keyof typeof jsonConfig],
+          has: () => true,
+          inspect: () => undefined,
+          update: () => Promise.resolve(),
+        } as any;
+      }
+      return originalGetConfiguration(section);
+    };
+
+    await fs.writeFile(path.join(tempDir, "figma.tokens.json"), JSON.stringify({
+      color: {
+        $type: "color",
+        brand: { 500: { $value: "#1E90FF" } },
+        primary: { $value: "{color.brand.500}" },
+      },
+    }, null, 2));
+
+    await tokenIndex.build();
+
+    const related = tokenIndex.findRelatedByValue("#1e90ff");
+    assert.deepStrictEqual(related.map(r => r.hit.name), ["--color-primary", "--color-brand-500"]);
+    assert.strictEqual(related[0].hit.referencedVar, "--color-brand-500");
+  });
+
+  test("should index tailwind.config and JS theme objects", async () => {
+    const jsConfig = { ...mockConfig, sources: ["**/tailwind.config.ts", "**/theme.ts"] };
+    vscode.workspace.getConfiguration = (section?: string) => {
+      if (section === "css-value2design-token") {
+        return {
+          get: (key: string) => jsConfig[key as keyof typeof jsConfig],
+          has: () => true,
+          inspect: () => undefined,
+          update: () => Promise.resolve(),
+        } as any;
+      }
+      return originalGetConfiguration(section);
+    };
+
+    await fs.writeFile(path.join(tempDir, "tailwind.config.ts"), `import type { Config } from "tailwindcss";
+export default {
+  content: ["./src/**/*.tsx"],
+  theme: {
+    extend: {
+      colors: { brand: { DEFAULT: "#1E90FF", dark: "#0B5CAD" } },
+    },
+  },
+} satisfies Config;`);
+    await fs.writeFile(path.join(tempDir, "theme.ts"), `export const theme = {
+  colors: { primary: "#1E90FF" },
+  space: [0, "4px", "8px"],
+};`);
+
+    await tokenIndex.build();
+
+    const hits = tokenIndex.findByValue("#1e90ff");
+    assert.deepStrictEqual(hits.map(h => h.name).sort(), ["theme(colors.brand.DEFAULT)", "theme.colors.primary"]);
+    assert.strictEqual(tokenIndex.findByUtilityClass("bg-brand")[0]?.name, "theme(colors.brand.DEFAULT)");
+    assert.strictEqual(tokenIndex.findByUtilityClass("text-brand-dark")[0]?.value, "#0B5CAD");
+  });
+
+  test("should index token packages from node_modules as read-only sources", async () => {
+    const packageConfig = { ...mockConfig, sources: [], packages: ["open-props", "tailwindcss/theme.css"] };
+    vscode.workspace.getConfiguration = (section?: string) => {
+      if (section === "css-value2design-token") {
+        return {
+          get: (key: string) => packageConfig[key as keyof typeof packageConfig],
+          has: () => true,
+          inspect: () => undefined,
+          update: () => Promise.resolve(),
+        } as any;
+      }
+      return originalGetConfiguration(section);
+    };
+
+    const openProps = path.join(tempDir, "node_modules", "open-props");
+    const tailwind = path.join(tempDir, "node_modules", "tailwindcss");
+    await fs.mkdir(openProps, { recursive: true });
+    await fs.mkdir(tailwind, { recursive: true });
+    await fs.writeFile(path.join(openProps, "package.json"), JSON.stringify({ name: "open-props", style: "open-props.min.css" }));
+    await fs.writeFile(path.join(openProps, "open-props.min.css"), ":where(html){--size-3:1rem;--blue-6:#228be6}");
+    await fs.writeFile(path.join(tailwind, "package.json"), JSON.stringify({
+      name: "tailwindcss",
+      exports: { ".": "./dist/lib.js", "./theme.css": { style: "./theme.css" } },
+    }));
+    await fs.writeFile(path.join(tailwind, "theme.css"), "@theme default { --color-red-500: #fb2c36; }");
+
+    await tokenIndex.build();
+
+    assert.strictEqual(tokenIndex.findByValue("#228be6")[0]?.package, "open-props");
+    assert.strictEqual(tokenIndex.findByValue("#fb2c36")[0]?.package, "tailwindcss/theme.css");
+    assert.strictEqual(tokenIndex.getFileInfo(path.join(openProps, "open-props.min.css"))?.package, "open-props");
+  });
+
+  test("should index files reachable from entry stylesheets", async () => {
+    const entryConfig = { ...mockConfig, sources: [], entries: ["src/globals.css"] };
+    vscode.workspace.getConfiguration = (section?: string) => {
+      if (section === "css-value2design-token") {
+        return {
+          get: (key: string) => entryConfig[key as keyof typeof entryConfig],
+          has: () => true,
+          inspect: () => undefined,
+          update: () => Promise.resolve(),
+        } as any;
+      }
+      return originalGetConfiguration(section);
+    };
+
+    await fs.mkdir(path.join(tempDir, "src", "tokens"), { recursive: true });
+    await fs.writeFile(path.join(tempDir, "src", "globals.css"), `@import "./tokens/colors.css" layer(tokens);`);
+    await fs.writeFile(path.join(tempDir, "src", "tokens", "colors.css"), ":root { --brand: #1e90ff; }");
+
+    await tokenIndex.build();
+
+    const [hit] = tokenIndex.findByValue("#1e90ff");
+    assert.strictEqual(hit?.name, "--brand");
+    assert.strictEqual(hit.entry, path.join(tempDir, "src", "globals.css"));
+  });
+
+  test("should restore from the disk cache and validate changed files", async () => {
+    const cacheFile = path.join(tempDir, ".cache", "token-index.json");
+    const cssFile = path.join(tempDir, "tokens.css");
+    await fs.writeFile(cssFile, ":root { --brand: #1e90ff; --gap: 8px; }");
+    await new TokenIndex(cacheFile).build();
+
+    const restored = new TokenIndex(cacheFile);
+    assert.strictEqual(await restored.restoreFromCache(), true);
+    assert.strictEqual(restored.isReady(), true);
+    assert.strictEqual(restored.findByValue("#1e90ff")[0]?.name, "--brand");
+
+    await fs.writeFile(cssFile, ":root { --brand: #ff0000; --gap: 8px; }");
+    const future = new Date(Date.now() + 5000);
+    await fs.utimes(cssFile, future, future);
+    await restored.validate();
+    assert.deepStrictEqual(restored.findByValue("#1e90ff"), []);
+    assert.strictEqual(restored.findByValue("#ff0000")[0]?.name, "--brand");
+    assert.strictEqual(restored.findByValue("8px").length, 1);
+
+    // 配置变化后缓存失效
+    const changedConfig = { ...mockConfig, "index.classWhitelist": ["^\\.dark$"] };
+    vscode.workspace.getConfiguration = (section?: string) => {
+      if (section === "css-value2design-token") {
+        return {
+          get: (key: string) => changedConfig[key as keyof typeof changedConfig],
+          has: () => true,
+          inspect: () => undefined,
+          update: () => Promise.resolve(),
+        } as any;
+      }
+      return originalGetConfiguration(section);
+    };
+    assert.strictEqual(await new TokenIndex(cacheFile).restoreFromCache(), false);
+  });
+
+  test("should reparse every file when rebuilding without the cache", async () => {
+    const cacheFile = path.join(tempDir, ".cache", "token-index.json");
+    const cssFile = path.join(tempDir, "tokens.css");
+    await fs.writeFile(cssFile, ":root { --brand: #1e90ff; }");
+    tokenIndex.setCacheFile(cacheFile);
+    await tokenIndex.build();
+
+    // 缓存中的解析结果与文件不一致（mtime 与内容哈希仍然匹配）
+    const cache = JSON.parse(await fs.readFile(cacheFile, "utf8"));
+    cache.files[cssFile].hits[0].value = "#000000";
+    await fs.writeFile(cacheFile, JSON.stringify(cache));
+
+    await tokenIndex.build();
+    assert.strictEqual(tokenIndex.findByName("--brand")[0]?.value, "#000000");
+    await tokenIndex.build({ ignoreCache: true });
+    assert.strictEqual(tokenIndex.findByName("--brand")[0]?.value, "#1e90ff");
+    // 重新写入的缓存也已修正
+    await tokenIndex.build();
+    assert.strictEqual(tokenIndex.findByName("--brand")[0]?.value, "#1e90ff");
+  });
+
+  test("should apply batched file changes including created and deleted files", async () => {
+    const kept = path.join(tempDir, "colors.css");
+    const removed = path.join(tempDir, "spacing.css");
+    await fs.writeFile(kept, ":root { --brand: #1e90ff; }");
+    await fs.writeFile(removed, ":root { --gap: 8px; }");
+    await tokenIndex.build();
+
+    const created = path.join(tempDir, "radius.css");
+    await fs.writeFile(created, ":root { --radius: 4px; }");
+    await fs.rm(removed);
+    await tokenIndex.onFilesChange([created, removed]);
+
+    assert.strictEqual(tokenIndex.findByValue("4px")[0]?.name, "--radius");
+    assert.deepStrictEqual(tokenIndex.findByValue("8px"), []);
+    assert.strictEqual(tokenIndex.hasFile(removed), false);
+    assert.strictEqual(tokenIndex.hasFile(kept), true);
+    assert.deepStrictEqual(tokenIndex.getFileTokens(created).map(h => h.name), ["--radius"]);
+    assert.deepStrictEqual(tokenIndex.getFileTokens(removed), []);
+  });
+
+  test("should group definitions by theme and match values in a chosen theme", async () => {
+    const themeConfig = {
+      ...mockConfigWithClassWhitelist,
+      "index.classWhitelist": [...mockConfigWithClassWhitelist["index.classWhitelist"], "^\\.btn$"],
+    };
+    vscode.workspace.getConfiguration = (section?: string) => {
+      if (section === "css-value2design-token") {
+        return {
+          get: (key: string) => themeConfig[key as keyof typeof themeConfig],
+          has: () => true,
+          inspect: () => undefined,
+          update: () => Promise.resolve(),
+        } as any;
+      }
+      return originalGetConfiguration(section);
+    };
+
+    const css = `:root {
+  --gray-900: #111111;
+  --bg: #ffffff;
+  --radius: 4px;
+}
+[data-theme="dark"] {
+  --bg: var(--gray-900);
+}
+.dark {
+  --fg: #eeeeee;
+}
+:root {
+  --fg: #222222;
+}
+@media (prefers-color-scheme: dark) {
+  :root { --accent: #0a84ff; }
+}
+.btn {
+  --btn-radius: 6px;
+}
+:root {
+  --accent: #007aff;
+  @media (prefers-color-scheme: dark) {
+    --border: #333333;
+  }
+}`;
+    await fs.writeFile(path.join(tempDir, "themes.css"), css);
+    await tokenIndex.build();
+
+    assert.deepStrictEqual(tokenIndex.getThemes(), ["dark"]);
+    assert.deepStrictEqual(
+      tokenIndex.getThemeValues("--bg").map(t => [t.theme, t.value]),
+      [[undefined, "#ffffff"], ["dark", "#111111"]],
+    );
+    // @media 中的 :root 与嵌套在规则中的 @media 都归入 dark，且不作为默认值
+    const accent = tokenIndex.findByName("--accent").find(h => h.media);
+    assert.strictEqual(accent?.theme, "dark");
+    assert.strictEqual(accent?.source, "scoped");
+    assert.strictEqual(tokenIndex.findByName("--border")[0]?.theme, "dark");
+    assert.strictEqual(tokenIndex.findByName("--fg").find(h => h.selector === ".dark")?.theme, "dark");
+
+    const names = (value: string, theme?: string) => tokenIndex
+      .filterByTheme(tokenIndex.findRelatedByValue(tokenIndex.normalize(value)!).map(r => r.hit), theme)
+      .map(h => `${h.name}${h.theme ? `@${h.theme}` : ""}`)
+      .sort();
+    // 暗色值只在 dark 主题下匹配到 --bg；默认主题下 --bg 是白色
+    assert.deepStrictEqual(names("#111111", "dark"), ["--bg@dark", "--gray-900"]);
+    assert.deepStrictEqual(names("#111111", "default"), ["--gray-900"]);
+    assert.deepStrictEqual(names("#ffffff", "dark"), []);
+    // dark 中没有覆盖的 token 沿用默认值
+    assert.deepStrictEqual(names("4px", "dark"), ["--radius"]);
+    // 组件作用域不是主题，按主题匹配时保留
+    assert.strictEqual(tokenIndex.findByName("--btn-radius")[0]?.theme, undefined);
+    assert.deepStrictEqual(names("6px", "dark"), ["--btn-radius"]);
+    assert.deepStrictEqual(names("#0a84ff"), ["--accent@dark"]);
+  });
+
+  test("should keep lookups and incremental updates independent of index size", async function () {
+    this.timeout(60000);
+    const hex = (i: number) => `#${i.toString(16).padStart(6, "0")}`;
+    const small = path.join(tempDir, "small.css");
+    let brand = 0;
+    // 改写小文件并增量更新，取多次中最快的一次，减少机器负载带来的抖动
+    const timeSmallUpdate = async () => {
+      let best = Infinity;
+      for (let run = 0; run < 5; run++) {
+        await fs.writeFile(small, `:root { --brand: ${hex(++brand)}; }`);
+        const start = performance.now();
+        await tokenIndex.onFileChange(small);
+        best = Math.min(best, performance.now() - start);
+      }
+      return best;
+    };
+    const timeLookups = () => {
+      const start = performance.now();
+      for (let i = 0; i < 2000; i++) {
+        tokenIndex.findByName(`--semantic-${i}`);
+        tokenIndex.findByReferencedVar(`--palette-${i}`);
+        tokenIndex.findRelatedByValue(hex(i));
+      }
+      return performance.now() - start;
+    };
+
+    // 基准：只有一个 token 时的增量更新与查找耗时
+    await fs.writeFile(small, ":root { --brand: #1e90ff; }");
+    await tokenIndex.build();
+    const baseUpdateMs = await timeSmallUpdate();
+    const baseLookupsMs = timeLookups();
+
+    // 25k 个色板原子值 + 25k 个引用它们的语义 token
+    const huge = path.join(tempDir, "huge-theme.css");
+    const lines = [":root {"];
+    for (let i = 0; i < 25000; i++) {
+      lines.push(`  --palette-${i}: ${hex(i)};`, `  --semantic-${i}: var(--palette-${i});`);
+    }
+    lines.push("}");
+    await fs.writeFile(huge, lines.join("\n"));
+    await tokenIndex.build();
+    assert.strictEqual(tokenIndex.getAllTokens().length, 50001);
+
+    // 耗时不随 token 总数线性增长（50k 倍的 token 数量，只允许常数级的差距）
+    const updateMs = await timeSmallUpdate();
+    assert.ok(updateMs < baseUpdateMs * 20 + 50, `单文件增量更新耗时 ${updateMs.toFixed(1)}ms，基准 ${baseUpdateMs.toFixed(1)}ms`);
+    assert.strictEqual(tokenIndex.findByName("--brand")[0]?.value, hex(brand));
+    const lookupsMs = timeLookups();
+    assert.ok(lookupsMs < baseLookupsMs * 20 + 100, `6k 次查找耗时 ${lookupsMs.toFixed(1)}ms，基准 ${baseLookupsMs.toFixed(1)}ms`);
+    for (const i of [0, 12345, 24999]) {
+      assert.strictEqual(tokenIndex.findByName(`--semantic-${i}`).length, 1);
+      assert.strictEqual(tokenIndex.findByReferencedVar(`--palette-${i}`).length, 1);
+      assert.strictEqual(tokenIndex.findRelatedByValue(hex(i)).length, 2);
+    }
+
+    // 修改大文件：旧值与旧引用从二级索引中移除
+    lines[1] = "  --palette-0: #abcdef;";
+    lines[2] = "  --semantic-0: var(--palette-1);";
+    await fs.writeFile(huge, lines.join("\n"));
+    await tokenIndex.onFileChange(huge);
+    assert.strictEqual(tokenIndex.getAllTokens().length, 50001);
+    assert.deepStrictEqual(tokenIndex.findByValue(hex(0)), []);
+    assert.deepStrictEqual(tokenIndex.findByValue("#abcdef").map((h) => h.name), ["--palette-0"]);
+    assert.deepStrictEqual(tokenIndex.findByReferencedVar("--palette-0"), []);
+    assert.deepStrictEqual(
+      tokenIndex.findByReferencedVar("--palette-1").map((h) => h.name).sort(),
+      ["--semantic-0", "--semantic-1"],
+    );
+
+    // 删除大文件：只剩小文件中的 token
+    await fs.rm(huge);
+    await tokenIndex.onFileChange(huge);
+    assert.deepStrictEqual(tokenIndex.getAllTokens().map((h) => h.name), ["--brand"]);
+    assert.deepStrictEqual(tokenIndex.findByName("--semantic-1"), []);
+    assert.deepStrictEqual(tokenIndex.findByReferencedVar("--palette-1"), []);
+    assert.deepStrictEqual(tokenIndex.findRelatedByValue(hex(1)), []);
+  });
+
   test("should support @rm-prefix to auto-generate aliases", async () => {
     // 注意：注释必须紧邻声明，中间不能有空行
     const cssContent = `:root {
@@ -843,4 +1381,98 @@ html {
     assert.strictEqual(hits[0].name, "--radius-size-xl");
     assert.strictEqual(hits[0].alias, "size-xl", "别名应该正确处理带 - 的前缀");
   });
+  test("should find nearest tokens when there is no exact match", async () => {
+    const cssContent = `
+:root {
+  --color-primary: #1E90FF;
+  --color-danger: #ff4d4f;
+  --spacing-md: 16px;
+  --spacing-lg: 24px;
+  --spacing-rem: 1rem;
+}
+		`;
+
+    const testFile = path.join(tempDir, "test-nearest.css");
+    await fs.writeFile(testFile, cssContent);
+
+    await tokenIndex.build();
+
+    // 颜色：按 ΔE 排序，且只返回阈值内的颜色
+    const colorMatches = tokenIndex.findNearest("#1e91ff");
+    assert.strictEqual(colorMatches.length, 1);
+    assert.strictEqual(colorMatches[0].hit.name, "--color-primary");
+    assert.ok(colorMatches[0].delta.startsWith("ΔE "));
+
+    // 长度：只比较同单位，按数值距离排序
+    const lengthMatches = tokenIndex.findNearest("15px");
+    assert.deepStrictEqual(
+      lengthMatches.map((m) => m.hit.name),
+      ["--spacing-md", "--spacing-rem", "--spacing-lg"],
+    );
+    assert.strictEqual(lengthMatches[0].delta, "+1px");
+    assert.strictEqual(lengthMatches[2].delta, "+9px");
+
+    // 相差过大的值不算近似
+    assert.strictEqual(tokenIndex.findNearest("100px").length, 0);
+  });
+  test("should treat px and rem as equivalent using root font size", async () => {
+    const cssContent = `
+@theme {
+  --spacing-4: 1rem;
+  --spacing-2_5: 0.625rem;
+  --spacing-px: 16px;
+  --text-base: 1em;
+}
+		`;
+
+    const testFile = path.join(tempDir, "test-units.css");
+    await fs.writeFile(testFile, cssContent);
+
+    await tokenIndex.build();
+
+    // 16px 与 1rem 视为同一个值，但保留 token 的原始单位
+    const hits = tokenIndex.findByValue(tokenIndex.normalize("16px")!);
+    assert.deepStrictEqual(hits.map((h) => h.name), ["--spacing-4", "--spacing-px"]);
+    assert.strictEqual(hits[0].value, "1rem");
+    assert.strictEqual(tokenIndex.normalize("10px"), tokenIndex.normalize(".625rem"));
+
+    // em 默认不参与换算
+    assert.strictEqual(tokenIndex.normalize("1em"), "1em");
+  });
+
+  test("should use configured root font size and px equivalents", async () => {
+    const unitConfig = {
+      ...mockConfig,
+      "units.rootFontSize": 10,
+      "units.pxEquivalents": ["rem", "em", "pt"],
+    };
+    vscode.workspace.getConfiguration = (section?: string) => {
+      if (section === "css-value2design-token") {
+        return {
+          get: (key: string) => unitConfig[key as keyof typeof unitConfig],
+          has: () => true,
+          inspect: () => undefined,
+          update: () => Promise.resolve(),
+        } as any;
+      }
+      return originalGetConfiguration(section);
+    };
+
+    const cssContent = `
+:root {
+  --spacing-md: 1.6rem;
+  --text-body: 1.2em;
+  --border-print: 3pt;
+}
+		`;
+
+    const testFile = path.join(tempDir, "test-units-config.css");
+    await fs.writeFile(testFile, cssContent);
+
+    await tokenIndex.build();
+
+    assert.strictEqual(tokenIndex.findByValue("16px")[0]?.name, "--spacing-md");
+    assert.strictEqual(tokenIndex.findByValue("12px")[0]?.name, "--text-body");
+    assert.strictEqual(tokenIndex.findByValue("4px")[0]?.name, "--border-print");
+  });
 });
@@ -0,0 +1,63 @@
+import * as assert from "assert";
+import { extractVarReferences, normalizeCssValue, parseVarFunction } from "../core/normalize";
+import { parseColor } from "../core/color";
+
+suite("Normalize Test Suite", () => {
+  test("should normalize every color syntax of the same color to one key", () => {
+    const forms = [
+      "#1E90FF",
+      "#1e90ffff",
+      "dodgerblue",
+      "rgb(30,144,255)",
+      "rgba(30, 144, 255, 1)",
+      "rgb(30 144 255)",
+      "rgb(30 144 255 / 100%)",
+      "rgb(11.7647% 56.4706% 100%)",
+      "hsl(209.6 100% 55.88%)",
+      "hsla(209.6, 100%, 55.88%, 1)",
+      "hwb(209.6 11.76% 0%)",
+      "color(srgb 0.1176 0.5647 1)",
+      "oklab(0.652 -0.0549 -0.182)",
+      "oklch(65.2% 0.1901 253.21deg)",
+      "lab(58.36 0.89 -64.78)",
+      "lch(58.36 64.79 270.79)",
+    ];
+    for (const form of forms) {
+      assert.strictEqual(normalizeCssValue(form), "#1e90ff", form);
+    }
+  });
+
+  test("should keep alpha in the key", () => {
+    assert.strictEqual(normalizeCssValue("rgba(0, 0, 0, .5)"), "#00000080");
+    assert.strictEqual(normalizeCssValue("rgb(0 0 0 / 50%)"), "#00000080");
+    assert.strictEqual(normalizeCssValue("#0008"), "#00000088");
+    assert.strictEqual(normalizeCssValue("transparent"), "#00000000");
+  });
+
+  test("should convert wide-gamut color spaces", () => {
+    assert.strictEqual(normalizeCssValue("color(display-p3 1 1 1)"), "#ffffff");
+    assert.strictEqual(normalizeCssValue("color(xyz-d65 0 0 0)"), "#000000");
+    assert.strictEqual(normalizeCssValue("oklch(100% 0 none)"), "#ffffff");
+  });
+
+  test("should not treat non-color values as colors", () => {
+    assert.strictEqual(parseColor("currentColor"), null);
+    assert.strictEqual(parseColor("rgb(var(--r) 0 0)"), null);
+    assert.strictEqual(parseColor("constructor"), null);
+    assert.strictEqual(normalizeCssValue("var(--color-primary, #fff)"), "var(--color-primary)");
+    assert.strictEqual(normalizeCssValue("16px"), "16px");
+  });
+
+  test("should parse var() fallbacks and references in composite values", () => {
+    assert.deepStrictEqual(parseVarFunction("var(--spacing-xl, 20px)"), { name: "--spacing-xl", fallback: "20px" });
+    assert.deepStrictEqual(parseVarFunction("var(--a,var(--b,1px))"), { name: "--a", fallback: "var(--b,1px)" });
+    assert.strictEqual(parseVarFunction("var(--a, 1px) var(--b)"), null);
+    assert.strictEqual(normalizeCssValue("var(--a, 1px) var(--b)"), "var(--a,1px) var(--b)");
+
+    assert.deepStrictEqual(extractVarReferences("calc(var(--spacing) * 4)"), ["--spacing"]);
+    assert.deepStrictEqual(
+      extractVarReferences("color-mix(in oklch, var(--primary) 50%, var(--bg, var(--primary)))"),
+      ["--primary", "--bg"],
+    );
+  });
+});
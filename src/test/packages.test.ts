@@ -0,0 +1,44 @@
+import * as assert from "assert";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+import { parsePackageSpecifier, resolvePackageExport, resolvePackageTokenFiles } from "../core/packages";
+
+suite("Token Packages Test Suite", () => {
+  test("should parse specifiers and resolve conditional / wildcard exports", () => {
+    assert.deepStrictEqual(parsePackageSpecifier("@radix-ui/colors"), { name: "@radix-ui/colors", subpath: undefined });
+    assert.deepStrictEqual(parsePackageSpecifier("tailwindcss/theme.css"), { name: "tailwindcss", subpath: "theme.css" });
+
+    const exports = {
+      ".": { types: "./index.d.ts", import: "./index.mjs" },
+      "./theme.css": { style: "./theme.css" },
+      "./css/*": "./dist/css/*",
+      "./internal/*": null,
+    };
+    assert.strictEqual(resolvePackageExport(exports, "."), "./index.mjs");
+    assert.strictEqual(resolvePackageExport(exports, "./theme.css"), "./theme.css");
+    assert.strictEqual(resolvePackageExport(exports, "./css/blue.css"), "./dist/css/blue.css");
+    assert.strictEqual(resolvePackageExport(exports, "./internal/a.css"), undefined);
+    assert.strictEqual(resolvePackageExport({ style: "./a.css", default: "./a.js" }, "."), "./a.css");
+  });
+
+  test("should find package files from ancestor node_modules", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "packages-test-"));
+    try {
+      const pkg = path.join(root, "node_modules", "@radix-ui", "colors");
+      await fs.mkdir(pkg, { recursive: true });
+      await fs.writeFile(path.join(pkg, "package.json"), JSON.stringify({ name: "@radix-ui/colors", main: "index.js" }));
+      await fs.writeFile(path.join(pkg, "index.js"), "");
+      await fs.writeFile(path.join(pkg, "blue.css"), ":root { --blue-9: #0090ff; }");
+      await fs.writeFile(path.join(pkg, "blue-dark.css"), ".dark { --blue-9: #0090ff; }");
+      const workspace = path.join(root, "apps", "web");
+      await fs.mkdir(workspace, { recursive: true });
+
+      const files = await resolvePackageTokenFiles("@radix-ui/colors", [workspace]);
+      assert.deepStrictEqual(files.map(f => path.basename(f)), ["blue-dark.css", "blue.css"]);
+      assert.deepStrictEqual(await resolvePackageTokenFiles("missing-package", [workspace]), []);
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,44 @@
+import * as assert from "assert";
+import { buildPalette, colorGroupName } from "../core/palette";
+
+suite("Palette Test Suite", () => {
+  test("should group colors by scale and strip scale suffixes", () => {
+    assert.strictEqual(colorGroupName("--color-blue-500"), "color-blue");
+    assert.strictEqual(colorGroupName("$brand-light"), "brand");
+    assert.strictEqual(colorGroupName("theme.colors.gray[100]"), "colors.gray");
+    assert.strictEqual(colorGroupName("--primary"), "primary");
+  });
+
+  test("should split tokens into sections and sort scales by px", () => {
+    const toPx = (value: string) => {
+      const m = value.match(/^(\d*\.?\d+)(px|rem)$/);
+      return m ? parseFloat(m[1]) * (m[2] === "rem" ? 16 : 1) : undefined;
+    };
+    const groups = buildPalette([
+      { name: "--spacing-lg", value: "1.5rem" },
+      { name: "--color-blue-500", value: "#1E90FF" },
+      { name: "--spacing-sm", value: "4px" },
+      { name: "--radius-md", value: "8px" },
+      { name: "--shadow-sm", value: "0 1px 2px rgb(0 0 0 / 0.05)" },
+      { name: "--font-sans", value: "Inter, sans-serif" },
+      { name: "--text-sm", value: "0.875rem" },
+      { name: "--color-blue-600", value: "#1873cc" },
+      { name: "--ease-out", value: "cubic-bezier(0, 0, 0.2, 1)" },
+    ], toPx);
+
+    assert.deepStrictEqual(
+      groups.map(g => [g.section, g.name, g.tokens.map(t => t.entry.name)]),
+      [
+        ["color", "color-blue", ["--color-blue-500", "--color-blue-600"]],
+        ["spacing", "", ["--spacing-sm", "--spacing-lg"]],
+        ["radius", "", ["--radius-md"]],
+        ["shadow", "", ["--shadow-sm"]],
+        ["typography", "", ["--font-sans", "--text-sm"]],
+        ["other", "", ["--ease-out"]],
+      ],
+    );
+    const typography = groups.find(g => g.section === "typography")!.tokens;
+    assert.deepStrictEqual(typography.map(t => t.property), ["font-family", "font-size"]);
+    assert.strictEqual(groups[0].tokens[0].color, "#1e90ff");
+  });
+});
@@ -0,0 +1,70 @@
+import * as assert from "assert";
+import { scanDeclarationValues, splitValueComponents } from "../core/scan";
+
+suite("Scan Test Suite", () => {
+  const pick = (text: string, fileName: string) =>
+    scanDeclarationValues(text, fileName).map((m) => {
+      assert.strictEqual(text.substr(m.offset, m.length), m.value, "偏移应该指向原文中的值");
+      return `${m.property}=${m.value}`;
+    });
+
+  test("should scan declarations in css-like files", () => {
+    const css = `
+/* color: #000; */
+.a:hover { color: #1E90FF; padding: 16px 24px }
+:root { --color-primary: #1E90FF; }
+$brand: #fff;
+.b {
+  border: 1px solid rgb(0 0 0 / 10%) ;
+}`;
+    assert.deepStrictEqual(pick(css, "a.scss"), [
+      "color=#1E90FF",
+      "padding=16px 24px",
+      "border=1px solid rgb(0 0 0 / 10%)",
+    ]);
+  });
+
+  test("should not treat // inside url() or strings as a comment", () => {
+    const css = `.a { background: url(//cdn.example.com/x.png); color: #1E90FF; }
+.b { content: "//"; margin: 4px; } // 行注释 color: #000;`;
+    assert.deepStrictEqual(pick(css, "a.scss"), [
+      "background=url(//cdn.example.com/x.png)",
+      "color=#1E90FF",
+      "content=\"//\"",
+      "margin=4px",
+    ]);
+  });
+
+  test("should scan style blocks and style attributes in markup", () => {
+    const vue = `<template><div style="color: red; margin: 4px">x</div></template>
+<style scoped>
+.x { background: #fff; }
+</style>`;
+    assert.deepStrictEqual(pick(vue, "A.vue"), ["color=red", "margin=4px", "background=#fff"]);
+  });
+
+  test("should scan style objects and css template literals in tsx", () => {
+    const tsx = `
+const s = { backgroundColor: '#1e90ff', label: 'red', padding: "16px" };
+const Button = styled.button\`
+  color: \${(p) => p.color};
+  border-radius: 8px;
+\`;`;
+    assert.deepStrictEqual(pick(tsx, "a.tsx"), [
+      "backgroundColor=#1e90ff",
+      "padding=16px",
+      "border-radius=8px",
+    ]);
+  });
+
+  test("should split color and length components", () => {
+    assert.deepStrictEqual(splitValueComponents("1px solid #ddd"), [
+      { offset: 0, value: "1px" },
+      { offset: 10, value: "#ddd" },
+    ]);
+    assert.deepStrictEqual(
+      splitValueComponents("0 1px var(--x, 2px) rgba(0, 0, 0, .1)").map((c) => c.value),
+      ["1px", "rgba(0, 0, 0, .1)"],
+    );
+  });
+});
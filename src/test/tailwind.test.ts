@@ -0,0 +1,65 @@
+import * as assert from "assert";
+import {
+  arbitraryValueToCss,
+  deriveTailwindUtility,
+  formatUtility,
+  parseArbitraryUtility,
+  stripUtilityPrefix,
+  utilityClassName,
+} from "../core/tailwind";
+
+suite("Tailwind Test Suite", () => {
+  test("should derive utilities from @theme namespaces", () => {
+    const color = deriveTailwindUtility("--color-primary")!;
+    assert.strictEqual(color.namespace, "color");
+    assert.strictEqual(color.key, "primary");
+    assert.strictEqual(utilityClassName(color, "bg"), "bg-primary");
+    assert.strictEqual(utilityClassName(color, "border-x"), "border-x-primary");
+    assert.strictEqual(utilityClassName(color, "p"), undefined);
+
+    assert.strictEqual(utilityClassName(deriveTailwindUtility("--spacing-xl")!, "px"), "px-xl");
+    assert.strictEqual(utilityClassName(deriveTailwindUtility("--radius-lg")!, "rounded-t"), "rounded-t-lg");
+    assert.strictEqual(utilityClassName(deriveTailwindUtility("--text-sm")!, "text"), "text-sm");
+  });
+
+  test("should prefer the longest namespace and skip sub-properties", () => {
+    assert.strictEqual(deriveTailwindUtility("--font-weight-bold")?.namespace, "font-weight");
+    assert.strictEqual(deriveTailwindUtility("--font-sans")?.namespace, "font");
+    assert.strictEqual(deriveTailwindUtility("--inset-shadow-sm")?.namespace, "inset-shadow");
+    assert.strictEqual(deriveTailwindUtility("--text-xl--line-height"), undefined);
+    assert.strictEqual(deriveTailwindUtility("--brand-500"), undefined);
+    assert.strictEqual(deriveTailwindUtility("--color-"), undefined);
+  });
+
+  test("should strip only known utility prefixes", () => {
+    assert.deepStrictEqual(stripUtilityPrefix("bg-neutral-4"), ["neutral-4"]);
+    assert.deepStrictEqual(stripUtilityPrefix("border-x-primary"), ["primary", "x-primary"]);
+    assert.deepStrictEqual(stripUtilityPrefix("-mt-4"), ["4"]);
+    assert.deepStrictEqual(stripUtilityPrefix("card-4"), []);
+    assert.deepStrictEqual(stripUtilityPrefix("bg-"), []);
+  });
+
+  test("should parse arbitrary value utilities with variants and modifiers", () => {
+    const utility = parseArbitraryUtility("hover:md:!bg-[#1E90FF]/50")!;
+    assert.deepStrictEqual(utility, {
+      variants: "hover:md:",
+      important: "leading",
+      prefix: "bg",
+      value: "#1E90FF",
+      modifier: "/50",
+    });
+    assert.strictEqual(formatUtility(utility, "bg-primary"), "hover:md:!bg-primary/50");
+
+    const trailing = parseArbitraryUtility("[&>svg]:-mt-[20px]!")!;
+    assert.strictEqual(trailing.prefix, "-mt");
+    assert.strictEqual(formatUtility(trailing, "-mt-xl"), "[&>svg]:-mt-xl!");
+
+    assert.strictEqual(parseArbitraryUtility("bg-primary"), undefined);
+  });
+
+  test("should convert arbitrary values to CSS", () => {
+    assert.strictEqual(arbitraryValueToCss("0_1px_2px_#000"), "0 1px 2px #000");
+    assert.strictEqual(arbitraryValueToCss("color:#1e90ff"), "#1e90ff");
+    assert.strictEqual(arbitraryValueToCss("a\\_b"), "a_b");
+  });
+});
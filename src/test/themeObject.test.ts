@@ -0,0 +1,57 @@
+import * as assert from "assert";
+import { parseThemeObject, themeExpression, themeFunction } from "../core/themeObject";
+import { deriveConfigUtility } from "../core/tailwind";
+
+suite("Theme Object Test Suite", () => {
+  test("should read theme and theme.extend from tailwind.config without executing it", () => {
+    const source = `// tailwind.config.js
+const colors = require("tailwindcss/colors");
+module.exports = {
+  content: ["./src/**/*.{ts,tsx}"],
+  theme: {
+    colors: { gray: colors.gray, white: "#fff" },
+    extend: {
+      colors: {
+        brand: { DEFAULT: "#1E90FF", 'dark': '#0B5CAD' }, // 主色
+        white: "#fafafa",
+      },
+      spacing: { "4.5": "1.125rem" },
+      fontFamily: { sans: ["Inter", "sans-serif"] },
+      fontSize: { xs: ["0.75rem", { lineHeight: "1rem" }] },
+    },
+  },
+  plugins: [require("@tailwindcss/forms")],
+};`;
+    const tokens = parseThemeObject(source, "/p/tailwind.config.js");
+    assert.deepStrictEqual(tokens.map(t => [t.path.join("."), t.value]), [
+      ["colors.brand.DEFAULT", "#1E90FF"],
+      ["colors.brand.dark", "#0B5CAD"],
+      ["colors.white", "#fafafa"],
+      ["spacing.4.5", "1.125rem"],
+      ["fontFamily.sans", "Inter, sans-serif"],
+      ["fontSize.xs", "0.75rem"],
+    ]);
+    assert.strictEqual(source.substring(tokens[1].offset).startsWith("'dark'"), true);
+    assert.strictEqual(themeFunction(["spacing", "4.5"]), "theme(spacing[4.5])");
+    assert.strictEqual(deriveConfigUtility(["colors", "brand", "DEFAULT"])?.key, "brand");
+    assert.strictEqual(deriveConfigUtility(["fontSize", "xs"])?.namespace, "text");
+  });
+
+  test("should flatten styled-components / emotion theme objects into expressions", () => {
+    const source = `import type { DefaultTheme } from "styled-components";
+export const theme: DefaultTheme = {
+  colors: { primary: "#1E90FF", "on-primary": \`#fff\` },
+  space: [0, "4px", "8px"],
+  ...base,
+  shadow: \`0 0 \${size}px red\`,
+};`;
+    const tokens = parseThemeObject(source, "/p/src/theme.ts");
+    assert.deepStrictEqual(tokens.map(t => [themeExpression(t.path), t.value]), [
+      ["theme.colors.primary", "#1E90FF"],
+      ["theme.colors['on-primary']", "#fff"],
+      ["theme.space[0]", "0"],
+      ["theme.space[1]", "4px"],
+      ["theme.space[2]", "8px"],
+    ]);
+  });
+});
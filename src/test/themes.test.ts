@@ -0,0 +1,35 @@
+import * as assert from "assert";
+import { detectTheme, themeLabel } from "../core/themes";
+
+suite("Themes Test Suite", () => {
+  test("should detect themes from selectors", () => {
+    assert.strictEqual(detectTheme(":root"), undefined);
+    assert.strictEqual(detectTheme("theme inline"), undefined);
+    assert.strictEqual(detectTheme(":root, .light"), undefined);
+    assert.strictEqual(detectTheme('[data-theme="dark"]'), "dark");
+    assert.strictEqual(detectTheme("html[data-mode=Dark]"), "dark");
+    assert.strictEqual(detectTheme(":root.dark"), "dark");
+    assert.strictEqual(detectTheme(".theme-high-contrast"), "high-contrast");
+    assert.strictEqual(detectTheme(".dark-theme"), "dark");
+    assert.strictEqual(detectTheme(":root:not(.dark)"), undefined);
+    assert.strictEqual(detectTheme("[data-theme]"), undefined);
+    assert.strictEqual(detectTheme("[data-theme=dark] .card"), "dark");
+  });
+
+  test("should not treat component scopes as themes", () => {
+    assert.strictEqual(detectTheme(".btn"), undefined);
+    assert.strictEqual(detectTheme(".card .title"), undefined);
+    assert.strictEqual(detectTheme("body"), undefined);
+    assert.strictEqual(detectTheme("button:hover"), undefined);
+    assert.strictEqual(detectTheme(".darken"), undefined);
+    assert.strictEqual(detectTheme(".btn", "(prefers-color-scheme: dark)"), "dark");
+    assert.strictEqual(themeLabel(undefined), "默认");
+  });
+
+  test("should detect themes from media conditions", () => {
+    assert.strictEqual(detectTheme(":root", "(prefers-color-scheme:dark)"), "dark");
+    assert.strictEqual(detectTheme(":root", "(prefers-color-scheme: light) and (min-width: 768px)"), "light");
+    assert.strictEqual(detectTheme(":root", "(min-width:768px)"), "@media (min-width:768px)");
+    assert.strictEqual(detectTheme(".dark", "print"), "dark @media print");
+  });
+});
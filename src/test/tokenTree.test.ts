@@ -0,0 +1,129 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+import { TokenIndex } from "../core/indexer";
+import { TokenTreeProvider } from "../providers/tokenTree";
+
+suite("Token Tree Test Suite", () => {
+  let tempDir: string;
+  let tokenIndex: TokenIndex;
+  let provider: TokenTreeProvider;
+  let originalGetConfiguration: any;
+  let originalWorkspaceFolders: any;
+
+  // 节点的展示结构：文件 → block → 类别 → token 名
+  const outline = (node?: any): any[] => provider.getChildren(node).map((child: any) => {
+    switch (child.kind) {
+      case "file": return [path.basename(child.info.path), outline(child)];
+      case "block": return [child.label, outline(child)];
+      case "category": return [child.category, outline(child)];
+      default: return child.token.hit.name;
+    }
+  });
+
+  suiteSetup(() => {
+    originalGetConfiguration = vscode.workspace.getConfiguration;
+    originalWorkspaceFolders = vscode.workspace.workspaceFolders;
+  });
+
+  suiteTeardown(() => {
+    vscode.workspace.getConfiguration = originalGetConfiguration;
+    Object.defineProperty(vscode.workspace, "workspaceFolders", {
+      value: originalWorkspaceFolders,
+      configurable: true,
+    });
+  });
+
+  setup(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "token-tree-test-"));
+    const config: Record<string, unknown> = {
+      sources: ["**/*.css"],
+      "index.classWhitelist": ["^\\[data-theme="],
+    };
+    vscode.workspace.getConfiguration = (section?: string) => {
+      if (section === "css-value2design-token") {
+        return {
+          get: (key: string, defaultValue?: unknown) => (key in config ? config[key] : defaultValue),
+          has: () => true,
+          inspect: () => undefined,
+          update: () => Promise.resolve(),
+        } as any;
+      }
+      return originalGetConfiguration(section);
+    };
+    Object.defineProperty(vscode.workspace, "workspaceFolders", {
+      value: [{ uri: vscode.Uri.file(tempDir), name: "test-workspace", index: 0 }],
+      configurable: true,
+    });
+
+    await fs.writeFile(path.join(tempDir, "a-tokens.css"), `:root {
+  --color-primary: #1e90ff;
+  --spacing-md: 16px;
+  /* @alias ink */
+  --color-brand: var(--color-primary);
+}
+
+[data-theme=dark] {
+  --color-primary: #111111;
+}
+`);
+    await fs.writeFile(path.join(tempDir, "b-theme.css"), `@theme {
+  --radius-lg: 8px;
+}
+`);
+    await fs.writeFile(path.join(tempDir, "empty.css"), `.card { color: red; }\n`);
+    tokenIndex = new TokenIndex();
+    await tokenIndex.build();
+    provider = new TokenTreeProvider(tokenIndex);
+  });
+
+  teardown(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("should group tokens by file, block and category", () => {
+    assert.deepStrictEqual(outline(), [
+      ["a-tokens.css", [
+        [":root", [
+          ["color", ["--color-primary", "--color-brand"]],
+          ["spacing", ["--spacing-md"]],
+        ]],
+        ["[data-theme=dark]", [
+          ["color", ["--color-primary"]],
+        ]],
+      ]],
+      ["b-theme.css", [
+        ["@theme", [
+          ["radius", ["--radius-lg"]],
+        ]],
+      ]],
+    ]);
+  });
+
+  test("should filter by name, value, resolved value and alias", () => {
+    // 解析值：--color-brand 引用了 --color-primary
+    provider.setFilter(" 1E90FF ");
+    assert.strictEqual(provider.getFilter(), "1e90ff");
+    assert.deepStrictEqual(outline(), [
+      ["a-tokens.css", [[":root", [["color", ["--color-primary", "--color-brand"]]]]]],
+    ]);
+
+    provider.setFilter("ink");
+    assert.deepStrictEqual(outline(), [
+      ["a-tokens.css", [[":root", [["color", ["--color-brand"]]]]]],
+    ]);
+
+    provider.setFilter("radius");
+    assert.deepStrictEqual(outline(), [
+      ["b-theme.css", [["@theme", [["radius", ["--radius-lg"]]]]]],
+    ]);
+
+    provider.setFilter("no-such-token");
+    assert.deepStrictEqual(outline(), []);
+
+    provider.setFilter("");
+    assert.strictEqual(outline().length, 2);
+  });
+});
@@ -0,0 +1,120 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { TokenIndex } from "../core/indexer";
+import { TokenIndexWatcher } from "../core/watcher";
+
+// 略大于 watcher 中的防抖间隔
+const DEBOUNCE_WAIT = 400;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+suite("TokenIndexWatcher Test Suite", () => {
+  let originalGetConfiguration: any;
+  let originalCreateFileSystemWatcher: any;
+  let handlers: { create: ((uri: vscode.Uri) => void)[]; change: ((uri: vscode.Uri) => void)[]; delete: ((uri: vscode.Uri) => void)[] };
+  let calls: string[][];
+  let ready: boolean;
+  let entries: Set<string>;
+  let running: number;
+  let delay: number;
+  let watcher: TokenIndexWatcher;
+
+  // 只实现 watcher 用到的方法，记录每一批更新的文件，并检查更新不会交错执行
+  const update = async (files: string[]) => {
+    running++;
+    assert.strictEqual(running, 1, "两次更新交错执行");
+    calls.push(files);
+    await wait(delay);
+    running--;
+  };
+  const fakeIndex = {
+    isReady: () => ready,
+    hasFile: () => true,
+    getFileInfo: (file: string) => (entries.has(file) ? { path: file, entry: true } : undefined),
+    onFilesChange: (files: string[]) => update([...files].sort()),
+    validate: () => update(["<validate>"]),
+  } as unknown as TokenIndex;
+
+  const fire = (kind: "create" | "change" | "delete", file: string) =>
+    handlers[kind].forEach((handler) => handler(vscode.Uri.file(file)));
+
+  suiteSetup(() => {
+    originalGetConfiguration = vscode.workspace.getConfiguration;
+    originalCreateFileSystemWatcher = vscode.workspace.createFileSystemWatcher;
+  });
+
+  suiteTeardown(() => {
+    vscode.workspace.getConfiguration = originalGetConfiguration;
+    vscode.workspace.createFileSystemWatcher = originalCreateFileSystemWatcher;
+  });
+
+  setup(() => {
+    handlers = { create: [], change: [], delete: [] };
+    calls = [];
+    ready = true;
+    entries = new Set();
+    running = 0;
+    delay = 10;
+    vscode.workspace.getConfiguration = (() => ({ get: () => undefined })) as any;
+    vscode.workspace.createFileSystemWatcher = (() => ({
+      onDidCreate: (handler: (uri: vscode.Uri) => void) => handlers.create.push(handler),
+      onDidChange: (handler: (uri: vscode.Uri) => void) => handlers.change.push(handler),
+      onDidDelete: (handler: (uri: vscode.Uri) => void) => handlers.delete.push(handler),
+      dispose: () => undefined,
+    })) as any;
+    watcher = new TokenIndexWatcher(fakeIndex);
+  });
+
+  teardown(() => {
+    watcher.dispose();
+  });
+
+  test("should debounce and batch create / change / delete events", async () => {
+    const a = vscode.Uri.file("/ws/a.css").fsPath;
+    const b = vscode.Uri.file("/ws/b.css").fsPath;
+    fire("change", a);
+    await wait(100);
+    fire("change", a);
+    fire("delete", b);
+    assert.deepStrictEqual(calls, [], "防抖期间不应更新");
+
+    await wait(DEBOUNCE_WAIT);
+    assert.deepStrictEqual(calls, [[a, b].sort()]);
+
+    fire("create", b);
+    await wait(DEBOUNCE_WAIT);
+    assert.deepStrictEqual(calls, [[a, b].sort(), [b]]);
+  });
+
+  test("should drop changes while the index is not built", async () => {
+    const a = vscode.Uri.file("/ws/a.css").fsPath;
+    const b = vscode.Uri.file("/ws/b.css").fsPath;
+    ready = false;
+    fire("change", a);
+    await wait(DEBOUNCE_WAIT);
+    assert.deepStrictEqual(calls, []);
+
+    // 构建会重新读取所有文件，之前的变更不再补做，之后的变更正常增量更新
+    ready = true;
+    await wait(DEBOUNCE_WAIT);
+    assert.deepStrictEqual(calls, []);
+    fire("change", b);
+    await wait(DEBOUNCE_WAIT);
+    assert.deepStrictEqual(calls, [[b]]);
+  });
+
+  test("should revalidate when an import-graph entry changes and never interleave updates", async () => {
+    const entry = vscode.Uri.file("/ws/main.css").fsPath;
+    const a = vscode.Uri.file("/ws/a.css").fsPath;
+    entries.add(entry);
+    delay = 800;
+    fire("change", entry);
+    // 第一批更新进行中时到达的变更排在它之后
+    await wait(DEBOUNCE_WAIT);
+    fire("change", a);
+    await wait(DEBOUNCE_WAIT);
+    assert.deepStrictEqual(calls, [["<validate>"]]);
+    await wait(delay);
+    assert.deepStrictEqual(calls, [["<validate>"], [a]]);
+  });
+});